@@ -15,8 +15,53 @@
  */
 
 import * as pulumi from "@pulumi/pulumi";
-import * as gcp from "@pulumi/gcp";
 import { execFileSync } from "child_process";
+import * as publicip from "public-ip";
+import { defaultThresholdPercents } from "./lib/budget";
+import { resolveAddressPlan } from "./lib/cidr";
+import {
+	AcmeConfig,
+	AddonsConfig,
+	BudgetsConfig,
+	CidrBlockConfig,
+	DnsConfig,
+	EgressLockdownConfig,
+	FirewallRuleConfig,
+	GkeConfig,
+	InternalIngressConfig,
+	KmsConfig,
+	KubeconfigConfig,
+	MonitoringConfig,
+	NatConfig,
+	NetworkConfig,
+	PrivateEndpointConfig,
+	ProjectsConfig,
+	RbacConfig,
+	RbacSubjectsConfig,
+	ResolvedNodePoolConfig,
+	SharedVpcConfig,
+	TenantConfig,
+	WorkloadIdentityConfig,
+} from "./lib/config";
+import {
+	Addon,
+	defaultManifestDirectory,
+	readVersionManifest,
+	vendoredManifest,
+} from "./lib/manifests";
+import {
+	environmentVariables,
+	mergeCidrBlocks,
+	parseCidrBlocks,
+	resolveValue,
+	strictEnvironment,
+} from "./lib/resolve";
+import {
+	addonConfigKeys,
+	ConfigProblems,
+	ConfigValidationError,
+	validateConfig,
+} from "./lib/validate";
 
 const config = new pulumi.Config();
 const gcpConfig = new pulumi.Config("gcp");
@@ -24,36 +69,127 @@ const gcpConfig = new pulumi.Config("gcp");
 /** GCP project for GKE cluster */
 export const gcpProject = gcpConfig.require("project");
 
-/** Project billing account */
-export const billingAccount = config.requireSecret("billingAccount");
+/** Project billing account, required to create projects or budgets */
+export const billingAccount = config.getSecret("billingAccount");
 
 /** Standard resource labels */
 export const env = config.get("env") || "production";
 export const purpose =
 	config.get("purpose") || gcpProject.replace(/-cluster$/, "");
-export const gcpUser =
-	config.get("user") ||
-	execFileSync("gcloud", ["config", "get-value", "account"], {
-		encoding: "utf8",
-	}).trim();
+
+const projectsConfig = config.getObject<ProjectsConfig>("projects") || {};
+
+/**
+ * Creation in a folder or organization, or adoption, of a project,
+ * its ID by default `projectId`.
+ */
+function resolveProject(key: "cluster" | "dns" | "kms", projectId: string) {
+	const project = projectsConfig[key] || {};
+	const parent = project.folderId || project.orgId ? project : projectsConfig;
+	return {
+		existingProject: project.existing ?? false,
+		folderId: project.existing ? undefined : parent.folderId,
+		orgId: project.existing ? undefined : parent.orgId,
+		projectId: project.projectId || projectId,
+	};
+}
+
+/** Cluster, DNS, and KMS projects */
+export const projects = {
+	cluster: resolveProject("cluster", gcpProject),
+	dns: resolveProject("dns", `${purpose}-dns`),
+	kms: resolveProject("kms", `${purpose}-kms`),
+};
+
+/**
+ * Fail instead of looking up values on the local machine, set by the
+ * "strict" configuration value or the IAC_GKE_STRICT environment
+ * variable.
+ */
+export const strict = config.getBoolean("strict") ?? strictEnvironment();
+
+/**
+ * Problems resolving the values below, reported with the other
+ * configuration problems
+ */
+const resolutionProblems = new ConfigProblems();
+
+/**
+ * User deploying the cluster, the "user" configuration value, the
+ * IAC_GKE_USER environment variable, or the gcloud account.
+ */
+export const gcpUser = resolveValue({
+	config: config.get("user"),
+	env: environmentVariables.user,
+	key: "user",
+	lookup: () =>
+		execFileSync("gcloud", ["config", "get-value", "account"], {
+			encoding: "utf8",
+		}).trim(),
+	parse: v => v,
+	strict,
+	collect: { missing: "", problems: resolutionProblems },
+});
 
 /** Region to create resources */
 export const region = gcpConfig.get("region") || "us-central1";
 
-interface GkeConfig {
-	channel?: string;
-	location?: string;
-	machineType?: string;
-	masterAuthorizedNetworkCidrBlocks?: gcp.types.input.container.ClusterMasterAuthorizedNetworksConfigCidrBlock[];
-	maxNodeCount?: number;
-	minNodeCount?: number;
-	zones?: string[];
-}
 const gkeConfig = config.getObject<GkeConfig>("gke") || {};
 
-/** Master authorized network CIDR blocks. */
-export const masterAuthorizedNetworkCidrBlocks =
-	gkeConfig.masterAuthorizedNetworkCidrBlocks;
+const privateEndpointConfig =
+	config.getObject<PrivateEndpointConfig>("privateEndpoint") || {};
+
+/** Parse the environment networks, collecting their problems. */
+function environmentNetworks(): CidrBlockConfig[] {
+	try {
+		return parseCidrBlocks(
+			process.env[environmentVariables.authorizedNetworks] || "",
+		);
+	} catch (e) {
+		(e as ConfigValidationError).problems.forEach(p =>
+			resolutionProblems.add(p.path, p.message),
+		);
+		return [];
+	}
+}
+
+const authorizedNetworks = mergeCidrBlocks(
+	gkeConfig.masterAuthorizedNetworkCidrBlocks || [],
+	environmentNetworks(),
+);
+
+/**
+ * Master authorized networks, the configured networks merged with
+ * those in the IAC_GKE_AUTHORIZED_NETWORKS environment variable. If
+ * there are none, the public IP address of this machine is authorized,
+ * which changes the cluster whenever someone else runs the program,
+ * unless the endpoint is private, which the cluster subnetwork can
+ * always reach.
+ */
+export const masterAuthorizedNetworks = resolveValue<
+	pulumi.Input<CidrBlockConfig[]>
+>({
+	config:
+		authorizedNetworks.length > 0 || privateEndpointConfig.enabled
+			? authorizedNetworks
+			: undefined,
+	env: environmentVariables.authorizedNetworks,
+	key: "gke.masterAuthorizedNetworkCidrBlocks",
+	lookup: () => {
+		pulumi.log.warn(
+			"No master authorized networks configured, authorizing the public IP address of this machine",
+		);
+		return pulumi.output(publicip.v4()).apply(ip => [
+			{
+				cidrBlock: `${ip}/32`,
+				displayName: gcpUser.replace(/@.*/, ""),
+			},
+		]);
+	},
+	parse: parseCidrBlocks,
+	strict,
+	collect: { missing: [], problems: resolutionProblems },
+});
 
 /** GKE release channel */
 export const channel = gkeConfig.channel || "REGULAR";
@@ -61,15 +197,280 @@ export const channel = gkeConfig.channel || "REGULAR";
 /** GKE cluster location */
 export const location = gkeConfig.location || region;
 
-/** Autoscaling */
-export const maxNodeCount = gkeConfig.maxNodeCount || 3;
-export const minNodeCount = gkeConfig.minNodeCount || 1;
-
-/** Kubernetes node machine type */
-export const machineType = gkeConfig.machineType || "e2-standard-2";
-
 /** Optional cluster node zones. */
 export const zones = gkeConfig.zones;
 
+/** GKE addons to enable or disable. */
+export const gkeAddons = gkeConfig.addons || {};
+
+/** Cluster autoscaler profile and node auto-provisioning. */
+export const clusterAutoscaling = gkeConfig.autoscaling || {};
+
+/** Whether vertical pod autoscaling is enabled. */
+export const verticalPodAutoscaling = gkeConfig.verticalPodAutoscaling || false;
+
+/**
+ * Private control plane endpoint and its bastion, if the public
+ * endpoint is disabled
+ */
+export const privateEndpoint = privateEndpointConfig.enabled
+	? {
+			bastion: privateEndpointConfig.bastion ?? true,
+			group: privateEndpointConfig.group,
+			machineType: privateEndpointConfig.machineType || "e2-micro",
+			zone:
+				privateEndpointConfig.zone ||
+				zones?.[0] ||
+				(location === region ? `${region}-b` : location),
+	  }
+	: undefined;
+
+/**
+ * Node pools with defaults applied. The GKE `machineType`,
+ * `minNodeCount`, and `maxNodeCount` provide the defaults for each
+ * node pool. If no node pools are configured, a single "wi-pool" node
+ * pool is created.
+ */
+export const nodePools: ResolvedNodePoolConfig[] = (
+	gkeConfig.nodePools || [{ name: "wi-pool" }]
+).map(np => ({
+	diskSizeGb: 100,
+	diskType: "pd-standard",
+	labels: {},
+	machineType: gkeConfig.machineType || "e2-standard-2",
+	maxNodeCount: gkeConfig.maxNodeCount || 3,
+	maxPodsPerNode: 64,
+	maxSurge: 1,
+	maxUnavailable: 1,
+	minNodeCount: gkeConfig.minNodeCount ?? 1,
+	preemptible: false,
+	taints: [],
+	...np,
+}));
+
+const rbacConfig = config.getObject<RbacConfig>("rbac") || {};
+
+/** Role bindings to create in the cluster */
+export const rbacBindings = rbacConfig.bindings || [];
+
+/** Deploy operators, by default the [[gcpUser]] */
+export const operators: RbacSubjectsConfig = rbacConfig.operators || {
+	users: [gcpUser],
+};
+
+/** Google Groups for RBAC security group */
+export const securityGroup = rbacConfig.securityGroup;
+
+/** Options of the kubeconfig stack output and Kubernetes provider */
+export const kubeconfigOptions =
+	config.getObject<KubeconfigConfig>("kubeconfig") || {};
+
+const networkConfig = config.getObject<NetworkConfig>("network") || {};
+
+/** Cluster network address plan */
+export const addressPlan = resolveAddressPlan(networkConfig);
+
+const kmsConfig = config.getObject<KmsConfig>("kms") || {};
+
+/** Cloud KMS key ring location, key protection level, and rotation */
+export const kms = {
+	bootDiskEncryption: kmsConfig.bootDiskEncryption ?? true,
+	location: kmsConfig.location || region,
+	protectionLevel: kmsConfig.protectionLevel || "SOFTWARE",
+	rotationDays: kmsConfig.rotationDays || 90,
+};
+
+const sharedVpcConfig = config.getObject<SharedVpcConfig>("sharedVpc") || {};
+
+/**
+ * Shared VPC subnetwork the cluster attaches to instead of creating a
+ * network, if a host project is configured
+ */
+export const sharedVpc = sharedVpcConfig.hostProject
+	? (sharedVpcConfig as Required<SharedVpcConfig>)
+	: undefined;
+
+/** Cloud NAT egress addresses, port allocation, logging, and timeouts */
+export const nat = config.getObject<NatConfig>("nat") || {};
+
+/** Firewall rules of the cluster network */
+export const firewall =
+	config.getObject<FirewallRuleConfig[]>("firewall") || [];
+
+const internalIngressConfig =
+	config.getObject<InternalIngressConfig>("internalIngress") || {};
+
+/**
+ * Internal ingress controller, if enabled, allowing clients in the
+ * cluster subnetwork by default
+ */
+export const internalIngress = internalIngressConfig.enabled
+	? {
+			ingressClass:
+				internalIngressConfig.ingressClass || "nginx-internal",
+			sourceRanges: internalIngressConfig.sourceRanges || [
+				addressPlan.subnetCidrBlock,
+			],
+	  }
+	: undefined;
+
+/** Egress lockdown of the cluster network */
+export const egressLockdown =
+	config.getObject<EgressLockdownConfig>("egressLockdown") || {};
+
 /** DNS zone name */
 export const dnsName = config.require("dnsName");
+
+/** Existing, parent, and private Cloud DNS zones */
+export const dns = config.getObject<DnsConfig>("dns") || {};
+
+const budgetsConfig = config.getObject<BudgetsConfig>("budgets") || {};
+
+/** Monthly billing budget amounts, by project */
+export const budgetAmounts = budgetsConfig.amounts || {};
+
+/** Billing budget currency, notification channels, and thresholds */
+export const budgetNotifications = {
+	currencyCode: budgetsConfig.currencyCode,
+	notificationChannels: budgetsConfig.notificationChannels || [],
+	thresholdPercents:
+		budgetsConfig.thresholdPercents || defaultThresholdPercents,
+};
+
+const monitoringConfig = config.getObject<MonitoringConfig>("monitoring") || {};
+
+/** Notification channels and alert policy settings, with defaults */
+export const monitoring = {
+	alertPolicies: monitoringConfig.alertPolicies ?? true,
+	certificateExpiryDays: monitoringConfig.certificateExpiryDays || 14,
+	certificateHosts: monitoringConfig.certificateHosts || [],
+	notificationChannels: monitoringConfig.notificationChannels || [],
+};
+
+const acmeConfig = config.getObject<AcmeConfig>("acme") || {};
+
+const addonsConfig = config.getObject<AddonsConfig>("addons") || {};
+
+/**
+ * Workload identities needed by the cluster addons, cert-manager and
+ * external-dns manage records in the project of the DNS zone, and the
+ * external-dns of the internal ingress controller in the private zone
+ * of the DNS project.
+ */
+const addonWorkloadIdentities: WorkloadIdentityConfig[] = [
+	{
+		namespace: "cert-manager",
+		project: dns.existingZone?.project || "dns",
+		roles: ["roles/dns.admin"],
+		serviceAccount: "cert-manager",
+	},
+	{
+		namespace: "external-dns",
+		project: dns.existingZone?.project || "dns",
+		roles: ["roles/dns.admin"],
+		serviceAccount: "external-dns",
+	},
+];
+if (internalIngress) {
+	addonWorkloadIdentities.push({
+		namespace: "external-dns-internal",
+		project: "dns",
+		roles: ["roles/dns.admin"],
+		serviceAccount: "external-dns-internal",
+	});
+}
+const workloadIdentityConfig =
+	config.getObject<WorkloadIdentityConfig[]>("workloadIdentities") || [];
+
+/** Application team namespaces */
+export const tenants = config.getObject<TenantConfig[]>("tenants") || [];
+
+const tenantWorkloadIdentities: WorkloadIdentityConfig[] = [];
+for (const t of tenants) {
+	if (t.workloadIdentity) {
+		tenantWorkloadIdentities.push({
+			...t.workloadIdentity,
+			namespace: t.name,
+			serviceAccount: t.workloadIdentity.serviceAccount || t.name,
+		});
+	}
+}
+
+/**
+ * GKE workload identities, the addon workload identities plus those
+ * in the configuration and those of the tenants. A configured
+ * workload identity with the same namespace and service account as an
+ * addon workload identity replaces it.
+ */
+export const workloadIdentities: Array<Required<WorkloadIdentityConfig>> = [
+	...addonWorkloadIdentities.filter(
+		a =>
+			!workloadIdentityConfig.some(
+				wi =>
+					wi.namespace === a.namespace &&
+					wi.serviceAccount === a.serviceAccount,
+			),
+	),
+	...workloadIdentityConfig,
+	...tenantWorkloadIdentities,
+].map(wi => ({ bindings: [], project: "cluster", roles: [], ...wi }));
+
+/*
+ * Check the configuration before any resources are declared, reporting
+ * all problems at once.
+ */
+validateConfig(
+	{
+		acme: acmeConfig,
+		addons: addonsConfig,
+		billingAccount: billingAccount !== undefined,
+		budgets: budgetsConfig,
+		dns,
+		dnsName,
+		egressLockdown,
+		env,
+		firewall,
+		gke: gkeConfig,
+		internalIngress: internalIngressConfig,
+		kms: kmsConfig,
+		kubeconfig: kubeconfigOptions,
+		monitoring: monitoringConfig,
+		nat,
+		network: networkConfig,
+		privateEndpoint: privateEndpointConfig,
+		projects: projectsConfig,
+		purpose,
+		rbac: rbacConfig,
+		region,
+		sharedVpc: sharedVpcConfig,
+		tenants,
+		workloadIdentities: workloadIdentityConfig,
+	},
+	resolutionProblems,
+);
+
+const manifestDirectory =
+	addonsConfig.manifestDirectory || defaultManifestDirectory;
+const versionManifest = readVersionManifest(manifestDirectory);
+
+/**
+ * Paths of the vendored addon manifests, verified against their
+ * checksums. The default version of each addon is set in the version
+ * manifest.
+ */
+export const addonManifests = {} as Record<Addon, string>;
+for (const addon of Object.keys(addonConfigKeys) as Addon[]) {
+	addonManifests[addon] = vendoredManifest(
+		manifestDirectory,
+		addon,
+		addonsConfig[addonConfigKeys[addon]] || versionManifest[addon].default,
+	);
+}
+
+/**
+ * Let's Encrypt account of the cert-manager cluster issuers, if its
+ * email address is set
+ */
+export const acme = acmeConfig.email
+	? (acmeConfig as AcmeConfig & { email: string })
+	: undefined;
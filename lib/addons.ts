@@ -0,0 +1,575 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as gcp from "@pulumi/gcp";
+import * as k8s from "@pulumi/kubernetes";
+import * as pulumi from "@pulumi/pulumi";
+import { GkeCluster } from "./cluster";
+import { childOptions, ComponentArgs, prefixName } from "./component";
+import {
+	workloadIdentity,
+	WorkloadIdentityConfiguration,
+	workloadIdentityTransformation,
+} from "./iam";
+import { Addon } from "./manifests";
+
+/** Let's Encrypt ACME servers of the cluster issuers. */
+const acmeServers = {
+	production: "https://acme-v02.api.letsencrypt.org/directory",
+	staging: "https://acme-staging-v02.api.letsencrypt.org/directory",
+};
+
+/** Cluster-scoped kinds renamed in a second instance of an addon. */
+const clusterScopedKinds = [
+	"ClusterRole",
+	"ClusterRoleBinding",
+	"IngressClass",
+	"MutatingWebhookConfiguration",
+	"ValidatingWebhookConfiguration",
+];
+
+/**
+ * ingress-nginx leader election ID, the controller appends its ingress
+ * class to get the name of its leader election config map.
+ */
+const ingressNginxElectionId = "ingress-controller-leader";
+
+/** Source ranges of Google Cloud load balancer health checks. */
+const healthCheckCidrBlocks = ["130.211.0.0/22", "35.191.0.0/16"];
+
+/**
+ * Create a Kubernetes YAML transformation that makes a second
+ * instance of an addon: objects in `namespace` are moved to
+ * "NAMESPACE-SUFFIX", and cluster-scoped objects and service accounts
+ * get "-SUFFIX" appended to their names, as do the references to
+ * them.
+ */
+export function addonInstanceTransformation(
+	namespace: string,
+	suffix: string,
+): (spec: any) => void {
+	const rename = (name: string): string => `${name}-${suffix}`;
+	const renameNamespace = (ns: string): string =>
+		ns === namespace ? rename(ns) : ns;
+	return (spec: any): void => {
+		const metadata = spec?.metadata;
+		if (!metadata?.name) {
+			return;
+		}
+		if (spec.kind === "Namespace") {
+			metadata.name = renameNamespace(metadata.name);
+			return;
+		}
+		if (
+			clusterScopedKinds.includes(spec.kind) ||
+			spec.kind === "ServiceAccount"
+		) {
+			metadata.name = rename(metadata.name);
+		}
+		if (metadata.namespace) {
+			metadata.namespace = renameNamespace(metadata.namespace);
+		}
+		if (spec.roleRef?.kind === "ClusterRole") {
+			spec.roleRef.name = rename(spec.roleRef.name);
+		}
+		for (const subject of spec.subjects || []) {
+			if (subject.namespace) {
+				subject.namespace = renameNamespace(subject.namespace);
+			}
+			if (subject.kind === "ServiceAccount") {
+				subject.name = rename(subject.name);
+			}
+		}
+		for (const webhook of spec.webhooks || []) {
+			const service = webhook.clientConfig?.service;
+			if (service?.namespace) {
+				service.namespace = renameNamespace(service.namespace);
+			}
+		}
+		const podSpec = spec.spec?.template?.spec;
+		if (podSpec?.serviceAccountName) {
+			podSpec.serviceAccountName = rename(podSpec.serviceAccountName);
+		}
+	};
+}
+
+/**
+ * Replace the value of the container command line flag `flag`, e.g.,
+ * "--ingress-class", adding the flag if it is not there.
+ */
+function setFlag(
+	containerArgs: string[],
+	flag: string,
+	value: string,
+): string[] {
+	const flagArgs = containerArgs.filter(a => !a.startsWith(`${flag}=`));
+	const i = containerArgs.findIndex(a => a.startsWith(`${flag}=`));
+	flagArgs.splice(i < 0 ? flagArgs.length : i, 0, `${flag}=${value}`);
+	return flagArgs;
+}
+
+/** ACME challenge solver of a cert-manager cluster issuer. */
+interface AcmeSolver {
+	dns01?: {
+		cloudDNS: {
+			hostedZoneName: pulumi.Input<string>;
+			project: string;
+		};
+	};
+	http01?: { ingress: { class: string } };
+	selector?: { dnsZones: string[] };
+}
+
+/** Arguments for [[ClusterAddons]]. */
+export interface ClusterAddonsArgs extends ComponentArgs {
+	/**
+	 * Let's Encrypt account of the cluster issuers, which are not
+	 * created if it is not provided
+	 */
+	acme?: {
+		/** ACME account email address */
+		email: string;
+		/** Ingress class of the HTTP01 solver, if any */
+		http01IngressClass?: string;
+	};
+	/** Cluster to install the addons in */
+	cluster: GkeCluster;
+	/**
+	 * Second ingress-nginx behind an internal TCP load balancer, its
+	 * ingresses get records in a private zone from a second
+	 * external-dns
+	 */
+	internalIngress?: {
+		/** Ingress class of the internal ingress controller */
+		ingressClass: string;
+		/** Private DNS zone name, with trailing dot */
+		privateDnsName: string;
+		/** GCP project ID of the private DNS zone */
+		privateDnsProjectId: string;
+		/** Client CIDR blocks allowed to reach the load balancer */
+		sourceRanges: string[];
+		/** Subnetwork of the load balancer address */
+		subnetwork: pulumi.Input<string>;
+	};
+	/** DNS zone name managed by external-dns, with trailing dot */
+	dnsName: string;
+	/** GCP project ID of the DNS zone */
+	dnsProjectId: string;
+	/** Cloud DNS managed zone name of the DNS zone */
+	dnsZoneName: pulumi.Input<string>;
+	/** Resource labels */
+	labels: Record<string, string>;
+	/** Paths of the verified, vendored addon manifests */
+	manifests: Record<Addon, string>;
+	/** GKE control plane range, allowed to call the admission webhooks */
+	masterIpv4CidrBlock: string;
+	/** Cluster network ID */
+	network: pulumi.Input<string>;
+	/** GCP project ID of the network, default is the cluster project */
+	networkProject?: pulumi.Input<string>;
+	/** Email of the node service account */
+	nodeServiceAccount: pulumi.Input<string>;
+	/** GCP project ID of the cluster */
+	project: pulumi.Input<string>;
+	/** GCP region of the ingress load balancer address */
+	region: string;
+	/** Owner ID of the DNS records external-dns creates */
+	txtOwnerId: string;
+	/** Workload identities to create */
+	workloadIdentities: Array<
+		Omit<
+			WorkloadIdentityConfiguration,
+			"options" | "resourcePrefix" | "workloadProject"
+		>
+	>;
+}
+
+/**
+ * Cluster addons: ingress-nginx behind a reserved external IP
+ * address, optionally a second ingress-nginx behind a reserved
+ * internal IP address, cert-manager with Let's Encrypt cluster
+ * issuers, and external-dns, along with the GKE workload identities
+ * they and other workloads use.
+ */
+export class ClusterAddons extends pulumi.ComponentResource {
+	/**
+	 * Let's Encrypt staging and production cert-manager cluster
+	 * issuers, solving DNS01 challenges for the DNS zone with Cloud
+	 * DNS, if there is an ACME account
+	 */
+	readonly clusterIssuers?: Record<
+		keyof typeof acmeServers,
+		k8s.apiextensions.CustomResource
+	>;
+	readonly ingressIpAddress: gcp.compute.Address;
+	/** Internal load balancer address of the internal ingress-nginx */
+	readonly internalIngressIpAddress?: gcp.compute.Address;
+	/**
+	 * Workload identity GCP service accounts, keyed by the Kubernetes
+	 * service account "NAMESPACE/NAME".
+	 */
+	readonly workloadIdentityServiceAccounts: Record<
+		string,
+		gcp.serviceAccount.Account
+	> = {};
+
+	constructor(
+		name: string,
+		args: ClusterAddonsArgs,
+		opts?: pulumi.ComponentResourceOptions,
+	) {
+		super("iac-gke:index:ClusterAddons", name, {}, opts);
+
+		const networkProject = args.networkProject || args.project;
+		// https://kubernetes.github.io/ingress-nginx/deploy/#gce-gke
+		const nginxIngressFirewall = new gcp.compute.Firewall(
+			prefixName(args, "fw-master-to-ingress-nginx"),
+			{
+				allows: [
+					{
+						protocol: "tcp",
+						ports: ["8443"],
+					},
+				],
+				description:
+					"Ingress from k8s master to ingress-nginx validating webhook",
+				direction: "INGRESS",
+				disabled: false,
+				network: args.network,
+				priority: 1000,
+				project: networkProject,
+				sourceRanges: [args.masterIpv4CidrBlock],
+				targetServiceAccounts: [args.nodeServiceAccount],
+			},
+			childOptions(this),
+		);
+
+		this.ingressIpAddress = new gcp.compute.Address(
+			prefixName(args, "nginx-ingress-svc-ip-address"),
+			{
+				addressType: "EXTERNAL",
+				description: "nginx-ingress service load balancer IP address",
+				labels: args.labels,
+				networkTier: "PREMIUM",
+				project: args.project,
+				region: args.region,
+			},
+			childOptions(this),
+		);
+
+		const internal = args.internalIngress;
+		const firewalls = [nginxIngressFirewall];
+		if (internal) {
+			this.internalIngressIpAddress = new gcp.compute.Address(
+				prefixName(args, "nginx-ingress-internal-ip-address"),
+				{
+					addressType: "INTERNAL",
+					description:
+						"Internal nginx-ingress service load balancer IP address",
+					labels: args.labels,
+					project: args.project,
+					region: args.region,
+					subnetwork: internal.subnetwork,
+				},
+				childOptions(this),
+			);
+			firewalls.push(
+				new gcp.compute.Firewall(
+					prefixName(args, "fw-internal-ingress-nginx"),
+					{
+						allows: [{ protocol: "tcp", ports: ["80", "443"] }],
+						description:
+							"Ingress from internal clients and health checks to the internal ingress-nginx",
+						direction: "INGRESS",
+						network: args.network,
+						priority: 1000,
+						project: networkProject,
+						sourceRanges: [
+							...internal.sourceRanges,
+							...healthCheckCidrBlocks,
+						],
+						targetServiceAccounts: [args.nodeServiceAccount],
+					},
+					childOptions(this),
+				),
+			);
+		}
+
+		for (const wi of args.workloadIdentities) {
+			this.workloadIdentityServiceAccounts[
+				`${wi.workloadNamespace}/${wi.workload}`
+			] = workloadIdentity({
+				...wi,
+				options: childOptions(this, {
+					dependsOn: [args.cluster.cluster],
+				}),
+				resourcePrefix: args.resourcePrefix,
+				sharedWorkload: args.workloadIdentities.some(
+					o =>
+						o.workload === wi.workload &&
+						o.workloadNamespace !== wi.workloadNamespace,
+				),
+				workloadProject: pulumi.output(args.project),
+			});
+		}
+
+		const k8sYamlOpts = childOptions(this, {
+			dependsOn: [args.cluster.adminBinding, ...firewalls],
+			provider: args.cluster.provider,
+		});
+		const tWorkloadIdentity = workloadIdentityTransformation(
+			this.workloadIdentityServiceAccounts,
+		);
+		const ingressIpAddress = this.ingressIpAddress;
+		// the resourcePrefix prefixes the names of the ConfigFiles too
+		new k8s.yaml.ConfigFile(
+			"ingress-nginx",
+			{
+				file: args.manifests["ingress-nginx"],
+				resourcePrefix: args.resourcePrefix,
+				transformations: [
+					tWorkloadIdentity,
+					s => {
+						if (
+							s?.kind === "Service" &&
+							s?.metadata?.name === "ingress-nginx-controller" &&
+							s?.metadata?.namespace === "ingress-nginx"
+						) {
+							s.spec.loadBalancerIP = ingressIpAddress.address;
+						}
+					},
+				],
+			},
+			k8sYamlOpts,
+		);
+		if (internal) {
+			const internalAddress = this.internalIngressIpAddress!;
+			new k8s.yaml.ConfigFile(
+				"ingress-nginx-internal",
+				{
+					file: args.manifests["ingress-nginx"],
+					resourcePrefix: args.resourcePrefix,
+					transformations: [
+						addonInstanceTransformation(
+							"ingress-nginx",
+							"internal",
+						),
+						tWorkloadIdentity,
+						s => {
+							if (
+								s?.metadata?.namespace !==
+								"ingress-nginx-internal"
+							) {
+								if (s?.kind === "IngressClass") {
+									s.metadata.name = internal.ingressClass;
+								}
+								return;
+							}
+							if (
+								s.kind === "Service" &&
+								s.metadata.name === "ingress-nginx-controller"
+							) {
+								s.metadata.annotations = {
+									...s.metadata.annotations,
+									"networking.gke.io/load-balancer-type":
+										"Internal",
+								};
+								s.spec.loadBalancerIP = internalAddress.address;
+								s.spec.loadBalancerSourceRanges =
+									internal.sourceRanges;
+							} else if (
+								s.kind === "Deployment" &&
+								s.metadata.name === "ingress-nginx-controller"
+							) {
+								const container =
+									s.spec.template.spec.containers[0];
+								container.args = setFlag(
+									container.args || [],
+									"--ingress-class",
+									internal.ingressClass,
+								);
+							} else if (s.kind === "Role") {
+								for (const rule of s.rules || []) {
+									if (rule.resourceNames) {
+										rule.resourceNames = rule.resourceNames.map(
+											(n: string) =>
+												n ===
+												`${ingressNginxElectionId}-nginx`
+													? `${ingressNginxElectionId}-${internal.ingressClass}`
+													: n,
+										);
+									}
+								}
+							} else if (s.kind === "Job") {
+								for (const container of s.spec.template.spec
+									.containers) {
+									container.args = (
+										container.args || []
+									).map((a: string) =>
+										a.startsWith("--webhook-name=")
+											? `${a}-internal`
+											: a,
+									);
+								}
+							}
+						},
+					],
+				},
+				k8sYamlOpts,
+			);
+		}
+		const certManager = new k8s.yaml.ConfigFile(
+			"cert-manager",
+			{
+				file: args.manifests["cert-manager"],
+				resourcePrefix: args.resourcePrefix,
+				transformations: [tWorkloadIdentity],
+			},
+			k8sYamlOpts,
+		);
+		const externalDnsInstances = [
+			{
+				annotationFilter: internal
+					? `kubernetes.io/ingress.class notin (${internal.ingressClass})`
+					: undefined,
+				dnsName: args.dnsName,
+				name: "external-dns",
+				project: args.dnsProjectId,
+				transformations: [] as Array<(spec: any) => void>,
+			},
+		];
+		if (internal) {
+			externalDnsInstances.push({
+				annotationFilter: `kubernetes.io/ingress.class=${internal.ingressClass}`,
+				dnsName: internal.privateDnsName,
+				name: "external-dns-internal",
+				project: internal.privateDnsProjectId,
+				transformations: [
+					addonInstanceTransformation("external-dns", "internal"),
+				],
+			});
+		}
+		for (const instance of externalDnsInstances) {
+			new k8s.yaml.ConfigFile(
+				instance.name,
+				{
+					file: args.manifests["external-dns"],
+					resourcePrefix: args.resourcePrefix,
+					transformations: [
+						...instance.transformations,
+						tWorkloadIdentity,
+						s => {
+							if (
+								s?.kind !== "Deployment" ||
+								s?.metadata?.name !== "external-dns"
+							) {
+								return;
+							}
+							const container =
+								s.spec.template.spec.containers[0];
+							let containerArgs = setFlag(
+								container.args,
+								"--domain-filter",
+								instance.dnsName.replace(/\.$/, ""),
+							);
+							containerArgs = setFlag(
+								containerArgs,
+								"--google-project",
+								instance.project,
+							);
+							containerArgs = setFlag(
+								containerArgs,
+								"--txt-owner-id",
+								args.txtOwnerId,
+							);
+							if (instance.annotationFilter) {
+								containerArgs = setFlag(
+									containerArgs,
+									"--annotation-filter",
+									instance.annotationFilter,
+								);
+							}
+							container.args = containerArgs;
+						},
+					],
+				},
+				k8sYamlOpts,
+			);
+		}
+
+		const acme = args.acme;
+		if (acme) {
+			const solvers: AcmeSolver[] = [
+				{
+					dns01: {
+						cloudDNS: {
+							hostedZoneName: args.dnsZoneName,
+							project: args.dnsProjectId,
+						},
+					},
+					selector: { dnsZones: [args.dnsName.replace(/\.$/, "")] },
+				},
+			];
+			if (acme.http01IngressClass) {
+				// without a selector, used for names outside the DNS zone
+				solvers.push({
+					http01: { ingress: { class: acme.http01IngressClass } },
+				});
+			}
+			const issuers = {} as Record<
+				keyof typeof acmeServers,
+				k8s.apiextensions.CustomResource
+			>;
+			for (const env of Object.keys(acmeServers) as Array<
+				keyof typeof acmeServers
+			>) {
+				const issuerName = `letsencrypt-${env}`;
+				issuers[env] = new k8s.apiextensions.CustomResource(
+					prefixName(args, issuerName),
+					{
+						apiVersion: "cert-manager.io/v1beta1",
+						kind: "ClusterIssuer",
+						metadata: { name: issuerName },
+						spec: {
+							acme: {
+								email: acme.email,
+								privateKeySecretRef: {
+									name: `${issuerName}-account-key`,
+								},
+								server: acmeServers[env],
+								solvers,
+							},
+						},
+					},
+					childOptions(this, {
+						dependsOn: [certManager],
+						provider: args.cluster.provider,
+					}),
+				);
+			}
+			this.clusterIssuers = issuers;
+		}
+
+		this.registerOutputs({
+			clusterIssuers: this.clusterIssuers && {
+				production: this.clusterIssuers.production.metadata.name,
+				staging: this.clusterIssuers.staging.metadata.name,
+			},
+			ingressIpAddress: this.ingressIpAddress.address,
+			internalIngressIpAddress: this.internalIngressIpAddress?.address,
+		});
+	}
+}
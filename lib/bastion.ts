@@ -0,0 +1,181 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as gcp from "@pulumi/gcp";
+import * as pulumi from "@pulumi/pulumi";
+import { childOptions, ComponentArgs, prefixName } from "./component";
+import { slug } from "./iam";
+
+/** Source range of Identity-Aware Proxy TCP forwarding. */
+const iapTunnelCidrBlock = "35.235.240.0/20";
+
+/** Arguments for [[Bastion]]. */
+export interface BastionArgs extends ComponentArgs {
+	/** GKE cluster name, used to name the bastion */
+	clusterName: string;
+	/** Description prefix, e.g., "USER Kubernetes ENV cluster" */
+	description: string;
+	/** Resource labels */
+	labels: Record<string, string>;
+	/** Machine type of the bastion */
+	machineType: string;
+	/** IAM members allowed to tunnel to and log in to the bastion */
+	members: string[];
+	/** Cluster network ID */
+	network: pulumi.Input<string>;
+	/** GCP project ID of the network */
+	networkProject: pulumi.Input<string>;
+	/** GCP project ID to create the bastion in */
+	project: pulumi.Input<string>;
+	/** Self link of the subnetwork of the bastion */
+	subnetwork: pulumi.Input<string>;
+	/** Zone of the bastion */
+	zone: string;
+}
+
+/**
+ * Shielded VM without an external IP address in the cluster subnetwork,
+ * reached through an Identity-Aware Proxy TCP tunnel, from which the
+ * private endpoint of the cluster is reachable.
+ */
+export class Bastion extends pulumi.ComponentResource {
+	readonly instance: gcp.compute.Instance;
+	readonly serviceAccount: gcp.serviceAccount.Account;
+	/**
+	 * Command starting a SOCKS proxy to the cluster network through the
+	 * tunnel
+	 */
+	readonly tunnelCommand: pulumi.Output<string>;
+
+	constructor(
+		name: string,
+		args: BastionArgs,
+		opts?: pulumi.ComponentResourceOptions,
+	) {
+		super("iac-gke:index:Bastion", name, {}, opts);
+
+		const bastionName = `${args.clusterName}-bastion`;
+		const iapService = new gcp.projects.Service(
+			prefixName(args, `${bastionName}-iap-service`),
+			{
+				disableOnDestroy: false,
+				project: args.project,
+				service: "iap.googleapis.com",
+			},
+			childOptions(this),
+		);
+		this.serviceAccount = new gcp.serviceAccount.Account(
+			prefixName(args, `${bastionName}-sa`),
+			{
+				accountId: `${bastionName}-sa`,
+				description: "GKE bastion service account without roles",
+				displayName: `${args.description} bastion`,
+				project: args.project,
+			},
+			childOptions(this),
+		);
+		this.instance = new gcp.compute.Instance(
+			prefixName(args, bastionName),
+			{
+				bootDisk: {
+					initializeParams: { image: "debian-cloud/debian-12" },
+				},
+				description: `${args.description} bastion`,
+				labels: args.labels,
+				machineType: args.machineType,
+				metadata: {
+					"block-project-ssh-keys": "TRUE",
+					"enable-oslogin": "TRUE",
+				},
+				name: bastionName,
+				networkInterfaces: [{ subnetwork: args.subnetwork }],
+				project: args.project,
+				serviceAccount: {
+					email: this.serviceAccount.email,
+					scopes: ["https://www.googleapis.com/auth/cloud-platform"],
+				},
+				shieldedInstanceConfig: {
+					enableIntegrityMonitoring: true,
+					enableSecureBoot: true,
+					enableVtpm: true,
+				},
+				zone: args.zone,
+			},
+			childOptions(this),
+		);
+
+		new gcp.compute.Firewall(
+			prefixName(args, "fw-iap-to-bastion"),
+			{
+				allows: [{ ports: ["22"], protocol: "tcp" }],
+				description:
+					"Ingress from Identity-Aware Proxy TCP forwarding to the bastion",
+				direction: "INGRESS",
+				network: args.network,
+				priority: 1000,
+				project: args.networkProject,
+				sourceRanges: [iapTunnelCidrBlock],
+				targetServiceAccounts: [this.serviceAccount.email],
+			},
+			childOptions(this),
+		);
+		for (const member of args.members) {
+			const memberName = slug(member.replace(/^[a-z]+:/, ""));
+			new gcp.iap.TunnelInstanceIAMMember(
+				prefixName(args, `${bastionName}-${memberName}-tunnel-member`),
+				{
+					instance: this.instance.name,
+					member,
+					project: args.project,
+					role: "roles/iap.tunnelResourceAccessor",
+					zone: args.zone,
+				},
+				childOptions(this, { dependsOn: [iapService] }),
+			);
+			new gcp.compute.InstanceIAMMember(
+				prefixName(
+					args,
+					`${bastionName}-${memberName}-os-login-member`,
+				),
+				{
+					instanceName: this.instance.name,
+					member,
+					project: args.project,
+					role: "roles/compute.osLogin",
+					zone: args.zone,
+				},
+				childOptions(this),
+			);
+			// logging in to a VM with a service account requires using it
+			new gcp.serviceAccount.IAMMember(
+				prefixName(args, `${bastionName}-${memberName}-sa-user-member`),
+				{
+					member,
+					role: "roles/iam.serviceAccountUser",
+					serviceAccountId: this.serviceAccount.name,
+				},
+				childOptions(this),
+			);
+		}
+
+		this.tunnelCommand = pulumi.interpolate`gcloud compute ssh ${this.instance.name} --project ${this.instance.project} --zone ${args.zone} --tunnel-through-iap -- -N -D 1080`;
+
+		this.registerOutputs({
+			instance: this.instance.name,
+			tunnelCommand: this.tunnelCommand,
+		});
+	}
+}
@@ -0,0 +1,105 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as gcp from "@pulumi/gcp";
+import * as pulumi from "@pulumi/pulumi";
+import { childOptions, ComponentArgs, prefixName } from "./component";
+
+/** Default percentages of the budget amount at which to notify. */
+export const defaultThresholdPercents = [50, 90, 100];
+
+/** Arguments for [[ProjectBudgets]]. */
+export interface ProjectBudgetsArgs extends ComponentArgs {
+	/**
+	 * Monthly budget amount of the projects, keyed by their short name.
+	 * Projects without an amount have no budget.
+	 */
+	amounts: Record<string, number | undefined>;
+	/** Billing account of the projects */
+	billingAccount: pulumi.Input<string>;
+	/** ISO 4217 currency code of the amounts */
+	currencyCode?: string;
+	/** Resource labels, used in the budget display names */
+	labels: Record<string, string>;
+	/** Cloud Monitoring notification channels to notify */
+	notificationChannels: pulumi.Input<string>[];
+	/** GCP project numbers, keyed by a short project name */
+	projects: Record<string, pulumi.Input<string>>;
+	/** Percentages of the amount at which to notify */
+	thresholdPercents: number[];
+}
+
+/**
+ * Monthly billing budgets, one for each project, notifying the billing
+ * account administrators and the notification channels as spend
+ * crosses the thresholds.
+ */
+export class ProjectBudgets extends pulumi.ComponentResource {
+	/** Budgets keyed by the short project name */
+	readonly budgets: Record<string, gcp.billing.Budget> = {};
+
+	constructor(
+		name: string,
+		args: ProjectBudgetsArgs,
+		opts?: pulumi.ComponentResourceOptions,
+	) {
+		super("iac-gke:index:ProjectBudgets", name, {}, opts);
+
+		const labels = args.labels;
+		for (const key of Object.keys(args.projects)) {
+			const amount = args.amounts[key];
+			if (!amount) {
+				continue;
+			}
+			const projectNumber = args.projects[key];
+			this.budgets[key] = new gcp.billing.Budget(
+				prefixName(args, `${key}-budget`),
+				{
+					allUpdatesRule:
+						args.notificationChannels.length > 0
+							? {
+									monitoringNotificationChannels:
+										args.notificationChannels,
+							  }
+							: undefined,
+					amount: {
+						specifiedAmount: {
+							currencyCode: args.currencyCode,
+							nanos: Math.round((amount % 1) * 1e9),
+							units: `${Math.floor(amount)}`,
+						},
+					},
+					billingAccount: args.billingAccount,
+					budgetFilter: {
+						projects: [
+							pulumi.interpolate`projects/${projectNumber}`,
+						],
+					},
+					displayName: `${labels.purpose} ${labels.env} ${key} (${labels.user})`.substring(
+						0,
+						60,
+					),
+					thresholdRules: args.thresholdPercents.map(t => ({
+						thresholdPercent: t / 100,
+					})),
+				},
+				childOptions(this),
+			);
+		}
+
+		this.registerOutputs({});
+	}
+}
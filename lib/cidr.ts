@@ -0,0 +1,165 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { NetworkConfig } from "./config";
+
+/** Parsed IPv4 CIDR block. */
+export interface Cidr {
+	/** Network address as an unsigned 32-bit integer */
+	address: number;
+	/** Prefix length, 0-32 */
+	prefix: number;
+}
+
+/**
+ * Parse an IPv4 CIDR block like "10.0.0.0/22". Return undefined if
+ * the string is not a valid CIDR block.
+ */
+export function parseCidr(cidr: string): Cidr | undefined {
+	const match = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})\/(\d{1,2})$/.exec(
+		cidr,
+	);
+	if (!match) {
+		return undefined;
+	}
+	const octets = match.slice(1, 5).map(o => parseInt(o, 10));
+	const prefix = parseInt(match[5], 10);
+	if (octets.some(o => o > 255) || prefix > 32) {
+		return undefined;
+	}
+	const address = octets.reduce((a, o) => a * 256 + o, 0);
+	return { address, prefix };
+}
+
+/** Number of addresses in a block with the provided prefix length. */
+export function cidrSize(prefix: number): number {
+	return Math.pow(2, 32 - prefix);
+}
+
+/** Return true if the CIDR block address has no host bits set. */
+export function isNetworkAddress(cidr: Cidr): boolean {
+	return cidr.address % cidrSize(cidr.prefix) === 0;
+}
+
+/** Format an IPv4 address and prefix length as a CIDR block. */
+export function formatCidr(cidr: Cidr): string {
+	const octets: number[] = [];
+	let address = cidr.address;
+	for (let i = 0; i < 4; i++) {
+		octets.unshift(address % 256);
+		address = Math.floor(address / 256);
+	}
+	return `${octets.join(".")}/${cidr.prefix}`;
+}
+
+/** Return the network block containing the CIDR block address. */
+export function networkOf(cidr: Cidr): Cidr {
+	const size = cidrSize(cidr.prefix);
+	return {
+		address: Math.floor(cidr.address / size) * size,
+		prefix: cidr.prefix,
+	};
+}
+
+/** Return true if the two CIDR blocks share any addresses. */
+export function cidrsOverlap(a: Cidr, b: Cidr): boolean {
+	return (
+		a.address < b.address + cidrSize(b.prefix) &&
+		b.address < a.address + cidrSize(a.prefix)
+	);
+}
+
+/**
+ * Return the `index`th block with prefix length `prefix` inside
+ * `base`.
+ */
+export function subnetOf(base: Cidr, prefix: number, index: number): Cidr {
+	return { address: base.address + index * cidrSize(prefix), prefix };
+}
+
+/** Cluster network address plan. */
+export interface AddressPlan {
+	/** Subnetwork primary range, used for node addresses */
+	subnetCidrBlock: string;
+	/** Subnetwork secondary range for Kubernetes services */
+	servicesCidrBlock: string;
+	/** Subnetwork secondary range for pods */
+	podsCidrBlock: string;
+	/** GKE control plane range, must be a /28 */
+	masterIpv4CidrBlock: string;
+}
+
+/**
+ * Address plan used when neither a base CIDR block nor individual
+ * ranges are configured, the ranges originally used by this project.
+ */
+export const defaultAddressPlan: AddressPlan = {
+	subnetCidrBlock: "10.0.0.0/22",
+	servicesCidrBlock: "10.0.16.0/20",
+	podsCidrBlock: "10.12.0.0/14",
+	masterIpv4CidrBlock: "172.19.13.32/28",
+};
+
+/**
+ * Derive an address plan from a base CIDR block. Relative to the
+ * base block's prefix length p, the subnetwork is the first /(p+10),
+ * services is the second /(p+8), the control plane is the /28 right
+ * after the services range, and pods is the last quarter of the base
+ * block, i.e., a /(p+2). The default address plan is this layout for
+ * the base block "10.0.0.0/12", except for the control plane range.
+ * Return undefined if `base` is not a valid CIDR block.
+ */
+export function deriveAddressPlan(base: string): AddressPlan | undefined {
+	const cidr = parseCidr(base);
+	if (!cidr || cidr.prefix + 10 > 28) {
+		return undefined;
+	}
+	const b = networkOf(cidr);
+	return {
+		subnetCidrBlock: formatCidr(subnetOf(b, b.prefix + 10, 0)),
+		servicesCidrBlock: formatCidr(subnetOf(b, b.prefix + 8, 1)),
+		podsCidrBlock: formatCidr(subnetOf(b, b.prefix + 2, 3)),
+		masterIpv4CidrBlock: formatCidr(
+			subnetOf(b, 28, (2 * cidrSize(b.prefix + 8)) / cidrSize(28)),
+		),
+	};
+}
+
+/**
+ * Number of pod addresses GKE reserves for each node, twice the
+ * maximum number of pods per node rounded up to a power of two.
+ */
+export function podAddressesPerNode(maxPodsPerNode: number): number {
+	return Math.pow(2, Math.ceil(Math.log2(2 * maxPodsPerNode)));
+}
+
+/**
+ * Resolve the network configuration into an address plan. Explicitly
+ * configured ranges take precedence over those derived from the base
+ * CIDR block. If no base CIDR block is configured, or it is not
+ * valid, the default address plan provides the remaining ranges.
+ */
+export function resolveAddressPlan(network: NetworkConfig): AddressPlan {
+	const base =
+		(network.baseCidrBlock && deriveAddressPlan(network.baseCidrBlock)) ||
+		defaultAddressPlan;
+	return {
+		subnetCidrBlock: network.subnetCidrBlock || base.subnetCidrBlock,
+		servicesCidrBlock: network.servicesCidrBlock || base.servicesCidrBlock,
+		podsCidrBlock: network.podsCidrBlock || base.podsCidrBlock,
+		masterIpv4CidrBlock:
+			network.masterIpv4CidrBlock || base.masterIpv4CidrBlock,
+	};
+}
@@ -0,0 +1,342 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as gcp from "@pulumi/gcp";
+import * as k8s from "@pulumi/kubernetes";
+import * as pulumi from "@pulumi/pulumi";
+import { childOptions, ComponentArgs, prefixName } from "./component";
+import {
+	ClusterAutoscalingConfig,
+	GkeAddonsConfig,
+	KubeconfigConfig,
+	RbacSubjectsConfig,
+	ResolvedNodePoolConfig,
+} from "./config";
+import { kubeconfig } from "./kubeconfig";
+import { ClusterNetwork } from "./network";
+import { rbacSubjects } from "./rbac";
+
+/** Arguments for [[GkeCluster]]. */
+export interface GkeClusterArgs extends ComponentArgs {
+	/** GKE addons to enable or disable */
+	addons?: GkeAddonsConfig;
+	/** Cluster autoscaler profile and node auto-provisioning */
+	autoscaling?: ClusterAutoscalingConfig;
+	/** Cloud KMS key ID used to encrypt node boot disks, if any */
+	bootDiskKmsKey?: pulumi.Input<string>;
+	/** GKE release channel */
+	channel: string;
+	/** GKE cluster name */
+	clusterName: string;
+	/** Description of the cluster */
+	description: string;
+	/** Options of the kubeconfig */
+	kubeconfig?: KubeconfigConfig;
+	/** Cloud KMS key ID used to encrypt Kubernetes secrets */
+	kmsKey: pulumi.Input<string>;
+	/** Resource labels */
+	labels: Record<string, string>;
+	/** GKE cluster location, a region or a zone */
+	location: string;
+	/** Networks allowed to access the Kubernetes API */
+	masterAuthorizedNetworks: pulumi.Input<
+		gcp.types.input.container.ClusterMasterAuthorizedNetworksConfigCidrBlock[]
+	>;
+	/** GKE control plane range */
+	masterIpv4CidrBlock: string;
+	/** Disable the public endpoint of the control plane */
+	privateEndpoint?: boolean;
+	/** Cluster network */
+	network: ClusterNetwork;
+	/** Node pools to create */
+	nodePools: ResolvedNodePoolConfig[];
+	/** Email of the node service account */
+	nodeServiceAccount: pulumi.Input<string>;
+	/** Network tags for the nodes */
+	nodeTags: string[];
+	/** GCP project ID to create the cluster in */
+	project: pulumi.Input<string>;
+	/** GCP region of the cluster */
+	region: string;
+	/** Deploy operators, bound to the cluster-admin cluster role */
+	operators: RbacSubjectsConfig;
+	/** Google Groups for RBAC security group, if any */
+	securityGroup?: string;
+	/** Enable vertical pod autoscaling */
+	verticalPodAutoscaling?: boolean;
+	/** Optional cluster node zones */
+	zones?: string[];
+}
+
+/**
+ * Private, shielded GKE cluster with workload identity and
+ * application-layer secrets encryption, its node pools, and a
+ * Kubernetes provider for the cluster.
+ */
+export class GkeCluster extends pulumi.ComponentResource {
+	readonly cluster: gcp.container.Cluster;
+	readonly nodePools: gcp.container.NodePool[];
+	/**
+	 * Kubeconfig for the cluster using the gke-gcloud-auth-plugin,
+	 * a secret since it contains the cluster endpoint
+	 */
+	readonly kubeconfig: pulumi.Output<string>;
+	/** Kubernetes provider for the cluster, using [[kubeconfig]] */
+	readonly provider: k8s.Provider;
+	/** Binding of the cluster-admin cluster role to the operators */
+	readonly adminBinding: k8s.rbac.v1.ClusterRoleBinding;
+
+	constructor(
+		name: string,
+		args: GkeClusterArgs,
+		opts?: pulumi.ComponentResourceOptions,
+	) {
+		super("iac-gke:index:GkeCluster", name, {}, opts);
+
+		const oauthScopes = [
+			"https://www.googleapis.com/auth/cloud-platform",
+			"https://www.googleapis.com/auth/userinfo.email",
+		];
+		const addons = args.addons || {};
+		const autoscaling = args.autoscaling || {};
+		const location = args.location;
+		const nodeLocations =
+			location === args.region
+				? args.zones
+				: args.zones?.filter(z => z !== location);
+		this.cluster = new gcp.container.Cluster(
+			prefixName(args, args.clusterName),
+			{
+				addonsConfig: {
+					cloudrunConfig: { disabled: !addons.cloudRun },
+					configConnectorConfig: addonToggle(addons.configConnector),
+					dnsCacheConfig: { enabled: addons.dnsCache ?? true },
+					gcePersistentDiskCsiDriverConfig: addonToggle(
+						addons.gcePersistentDiskCsiDriver,
+					),
+					horizontalPodAutoscaling: {
+						disabled: addons.horizontalPodAutoscaling === false,
+					},
+					httpLoadBalancing: { disabled: !addons.httpLoadBalancing },
+					networkPolicyConfig: { disabled: false },
+				},
+				authenticatorGroupsConfig: args.securityGroup
+					? { securityGroup: args.securityGroup }
+					: undefined,
+				// the provider only sets the service account and scopes of
+				// auto-provisioned node pools, so unlike the configured node
+				// pools they are shielded VMs without secure boot, and their
+				// boot disks do not use the boot disk key
+				clusterAutoscaling: {
+					autoProvisioningDefaults: autoscaling.autoProvisioning
+						? {
+								oauthScopes,
+								serviceAccount: args.nodeServiceAccount,
+						  }
+						: undefined,
+					autoscalingProfile: autoscaling.profile,
+					enabled: autoscaling.autoProvisioning || false,
+					resourceLimits: autoscaling.autoProvisioning
+						? autoscaling.resourceLimits
+						: undefined,
+				},
+				databaseEncryption: {
+					keyName: args.kmsKey,
+					state: "ENCRYPTED",
+				},
+				description: args.description,
+				enableBinaryAuthorization: false,
+				enableIntranodeVisibility: false,
+				enableKubernetesAlpha: false,
+				enableLegacyAbac: false,
+				enableShieldedNodes: true,
+				enableTpu: false,
+				initialNodeCount: location === args.region ? 1 : 3,
+				ipAllocationPolicy: {
+					clusterSecondaryRangeName: args.network.podRangeName,
+					servicesSecondaryRangeName: args.network.serviceRangeName,
+				},
+				location,
+				loggingService: "logging.googleapis.com/kubernetes",
+				maintenancePolicy: {
+					recurringWindow: {
+						endTime: "2000-01-02T05:00:00Z",
+						recurrence: "FREQ=WEEKLY;BYDAY=SA,SU",
+						startTime: "2000-01-01T20:00:00Z",
+					},
+				},
+				masterAuth: {
+					clientCertificateConfig: {
+						issueClientCertificate: false,
+					},
+				},
+				masterAuthorizedNetworksConfig: {
+					cidrBlocks: args.masterAuthorizedNetworks,
+				},
+				monitoringService: "monitoring.googleapis.com/kubernetes",
+				network: args.network.network.selfLink,
+				networkPolicy: {
+					enabled: true,
+					provider: "CALICO",
+				},
+				nodeLocations,
+				podSecurityPolicyConfig: {
+					enabled: false,
+				},
+				privateClusterConfig: {
+					enablePrivateEndpoint: args.privateEndpoint || false,
+					enablePrivateNodes: true,
+					masterIpv4CidrBlock: args.masterIpv4CidrBlock,
+				},
+				project: args.project,
+				releaseChannel: {
+					channel: args.channel,
+				},
+				removeDefaultNodePool: true,
+				resourceLabels: args.labels,
+				subnetwork: args.network.subnetwork.selfLink,
+				verticalPodAutoscaling: {
+					enabled: args.verticalPodAutoscaling || false,
+				},
+				workloadIdentityConfig: {
+					identityNamespace: pulumi.concat(
+						args.project,
+						".svc.id.goog",
+					),
+				},
+			},
+			childOptions(this, {
+				customTimeouts: { create: "60m", delete: "120m" },
+			}),
+		);
+
+		this.nodePools = args.nodePools.map(
+			np =>
+				new gcp.container.NodePool(
+					prefixName(args, np.name),
+					{
+						autoscaling: {
+							maxNodeCount: np.maxNodeCount,
+							minNodeCount: np.minNodeCount,
+						},
+						cluster: this.cluster.name,
+						initialNodeCount: np.minNodeCount,
+						location,
+						management: {
+							autoRepair: true,
+							autoUpgrade: true,
+						},
+						maxPodsPerNode: np.maxPodsPerNode,
+						nodeConfig: {
+							bootDiskKmsKey: args.bootDiskKmsKey,
+							diskSizeGb: np.diskSizeGb,
+							diskType: np.diskType,
+							guestAccelerators: [],
+							imageType: "COS_CONTAINERD",
+							labels: { ...np.labels, ...args.labels },
+							localSsdCount: 0,
+							machineType: np.machineType,
+							metadata: {
+								"disable-legacy-endpoints": "true",
+							},
+							oauthScopes,
+							preemptible: np.preemptible,
+							serviceAccount: args.nodeServiceAccount,
+							shieldedInstanceConfig: {
+								enableIntegrityMonitoring: true,
+								enableSecureBoot: true,
+							},
+							tags: args.nodeTags,
+							taints: np.taints,
+							workloadMetadataConfig: {
+								nodeMetadata: "GKE_METADATA_SERVER",
+							},
+						},
+						nodeLocations: np.zones || nodeLocations,
+						project: args.project,
+						upgradeSettings: {
+							maxSurge: np.maxSurge,
+							maxUnavailable: np.maxUnavailable,
+						},
+					},
+					childOptions(this, {
+						customTimeouts: { create: "60m", delete: "120m" },
+					}),
+				),
+		);
+
+		const kubeconfigOptions = args.kubeconfig || {};
+		this.kubeconfig = pulumi.secret(
+			pulumi
+				.all([
+					this.cluster.name,
+					this.cluster.endpoint,
+					this.cluster.privateClusterConfig,
+					this.cluster.masterAuth,
+					this.cluster.location,
+					this.cluster.project,
+				])
+				.apply(
+					([clusterName, endpoint, pcc, auth, location, projectId]) =>
+						kubeconfig({
+							clusterCaCertificate: auth.clusterCaCertificate,
+							clusterName,
+							endpoint:
+								kubeconfigOptions.privateEndpoint ||
+								args.privateEndpoint
+									? pcc.privateEndpoint
+									: endpoint,
+							impersonateServiceAccount:
+								kubeconfigOptions.impersonateServiceAccount,
+							location,
+							projectId,
+							proxyUrl: kubeconfigOptions.proxyUrl,
+						}),
+				),
+		);
+		this.provider = new k8s.Provider(
+			prefixName(args, "k8s-provider"),
+			{ kubeconfig: this.kubeconfig },
+			childOptions(this),
+		);
+		this.adminBinding = new k8s.rbac.v1.ClusterRoleBinding(
+			prefixName(args, "atomist-admin-cluster-role-binding"),
+			{
+				apiVersion: "rbac.authorization.k8s.io/v1",
+				kind: "ClusterRoleBinding",
+				roleRef: {
+					apiGroup: "rbac.authorization.k8s.io",
+					kind: "ClusterRole",
+					name: "cluster-admin",
+				},
+				subjects: rbacSubjects(args.operators),
+			},
+			childOptions(this, { provider: this.provider }),
+		);
+
+		this.registerOutputs({
+			cluster: this.cluster.name,
+			nodePools: this.nodePools.map(np => np.name),
+		});
+	}
+}
+
+/** Addon block enabling or disabling an addon, if configured. */
+function addonToggle(
+	enabled: boolean | undefined,
+): { enabled: boolean } | undefined {
+	return enabled === undefined ? undefined : { enabled };
+}
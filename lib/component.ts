@@ -0,0 +1,52 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as pulumi from "@pulumi/pulumi";
+
+/** Arguments common to all the components in this project. */
+export interface ComponentArgs {
+	/**
+	 * Prefix for the names of the resources the component creates.
+	 * Use a different prefix for each instance of a component in the
+	 * same program.
+	 */
+	resourcePrefix?: string;
+}
+
+/**
+ * Prepend the resource prefix, if any, to a resource name separated
+ * by "-".
+ */
+export function prefixName(args: ComponentArgs, name: string): string {
+	return args.resourcePrefix ? `${args.resourcePrefix}-${name}` : name;
+}
+
+/**
+ * Resource options for a resource created by a component. The alias
+ * maintains the identity of resources created before they were
+ * managed by a component, when they were all created at the top level
+ * of the stack.
+ */
+export function childOptions<T extends pulumi.ResourceOptions>(
+	parent: pulumi.Resource,
+	opts?: T,
+): T {
+	return {
+		...opts,
+		aliases: [{ parent: pulumi.rootStackResource }],
+		parent,
+	} as T;
+}
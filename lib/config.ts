@@ -0,0 +1,626 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/*
+ * Types of the stack configuration values. This module, like
+ * lib/validate.ts, must not import Pulumi or the cloud provider SDKs
+ * so it can be used outside of a Pulumi program.
+ */
+
+/**
+ * Let's Encrypt account of the cert-manager cluster issuers, the
+ * "acme" configuration value.
+ */
+export interface AcmeConfig {
+	/**
+	 * ACME account email address, notified of expiring certificates,
+	 * the cluster issuers are only created if it is set
+	 */
+	email?: string;
+	/**
+	 * Ingress class of the HTTP01 solver used for names outside the DNS
+	 * zone, default is no HTTP01 solver
+	 */
+	http01IngressClass?: string;
+}
+
+/** Cluster addon versions, the "addons" configuration value. */
+export interface AddonsConfig {
+	/** cert-manager version, e.g., "v0.16.1" */
+	certManager?: string;
+	/** external-dns version, e.g., "v0.7.3" */
+	externalDns?: string;
+	/** ingress-nginx controller version, e.g., "v0.34.1" */
+	ingressNginx?: string;
+	/**
+	 * Directory containing the vendored manifests and their version
+	 * manifest, default is the k8s directory of this project
+	 */
+	manifestDirectory?: string;
+}
+
+/** Cloud DNS managed zone, by name. */
+export interface DnsZoneConfig {
+	/** Managed zone name, not its DNS name */
+	name: string;
+	/** GCP project ID of the zone */
+	project?: string;
+}
+
+/** Cloud DNS zones of the `dnsName`. */
+export interface DnsConfig {
+	/**
+	 * Existing public zone to use instead of creating one, by default
+	 * in the DNS project. DNSSEC should be on.
+	 */
+	existingZone?: DnsZoneConfig;
+	/**
+	 * Cloud DNS zone of the parent domain to create the NS and DS
+	 * records delegating the `dnsName` in, its project is required
+	 */
+	parentZone?: DnsZoneConfig;
+	/** Private zone attached to the cluster network */
+	privateZone?: {
+		/** DNS name of the private zone, with trailing dot */
+		dnsName: string;
+	};
+}
+
+/**
+ * Cloud KMS keys for secrets, node boot disks, and storage, the "kms"
+ * configuration value.
+ */
+export interface KmsConfig {
+	/** Encrypt node boot disks with the boot disk key, default is true */
+	bootDiskEncryption?: boolean;
+	/** Key ring location, default is the region */
+	location?: string;
+	/** "SOFTWARE", the default, or "HSM" */
+	protectionLevel?: string;
+	/** Days between automatic rotations of the keys, default is 90 */
+	rotationDays?: number;
+}
+
+/** Creation or adoption of the cluster, DNS, or KMS project. */
+export interface ProjectConfig {
+	/** Use the existing project instead of creating one, default is false */
+	existing?: boolean;
+	/** Numeric ID of the folder to create the project in */
+	folderId?: string;
+	/** Numeric ID of the organization to create the project in */
+	orgId?: string;
+	/**
+	 * ID of the DNS or KMS project, default is "PURPOSE-dns" or
+	 * "PURPOSE-kms". The cluster project ID is the gcp:project
+	 * configuration value.
+	 */
+	projectId?: string;
+}
+
+/**
+ * GCP projects of the cluster, DNS, and KMS resources, the "projects"
+ * configuration value. Projects without a folder or organization are
+ * created without a parent.
+ */
+export interface ProjectsConfig {
+	cluster?: ProjectConfig;
+	dns?: ProjectConfig;
+	/** Numeric ID of the folder of projects without their own */
+	folderId?: string;
+	kms?: ProjectConfig;
+	/** Numeric ID of the organization of projects without their own */
+	orgId?: string;
+}
+
+/** Kubeconfig of the stack output and the Kubernetes provider. */
+export interface KubeconfigConfig {
+	/**
+	 * Email of a GCP service account the Kubernetes credentials are
+	 * obtained for, default is the gcloud account
+	 */
+	impersonateServiceAccount?: string;
+	/**
+	 * Use the private endpoint of the cluster, default is false unless
+	 * the public endpoint is disabled
+	 */
+	privateEndpoint?: boolean;
+	/**
+	 * Proxy to reach the Kubernetes API through, like
+	 * "socks5://localhost:1080" for the bastion tunnel
+	 */
+	proxyUrl?: string;
+}
+
+/**
+ * Private control plane endpoint and the bastion reaching it through
+ * an Identity-Aware Proxy TCP tunnel, the "privateEndpoint"
+ * configuration value.
+ */
+export interface PrivateEndpointConfig {
+	/** Create the bastion, default is true */
+	bastion?: boolean;
+	/** Disable the public endpoint of the control plane, default is false */
+	enabled?: boolean;
+	/** Google Group allowed to tunnel to the bastion and log in */
+	group?: string;
+	/** Machine type of the bastion, default is "e2-micro" */
+	machineType?: string;
+	/** Zone of the bastion, default is the first cluster zone or REGION-b */
+	zone?: string;
+}
+
+/**
+ * Monthly billing budgets of the cluster, KMS, and DNS projects, the
+ * "budgets" configuration value.
+ */
+export interface BudgetsConfig {
+	/**
+	 * Monthly budget amount of each project in units of the billing
+	 * account currency. Projects without an amount have no budget.
+	 */
+	amounts?: {
+		cluster?: number;
+		dns?: number;
+		kms?: number;
+	};
+	/** ISO 4217 currency code, default is the billing account currency */
+	currencyCode?: string;
+	/**
+	 * Cloud Monitoring notification channels, e.g.,
+	 * "projects/PROJECT/notificationChannels/ID", notified in addition
+	 * to the billing account administrators
+	 */
+	notificationChannels?: string[];
+	/**
+	 * Percentages of the amount at which to notify, default is 50, 90,
+	 * and 100
+	 */
+	thresholdPercents?: number[];
+}
+
+/** Cloud Monitoring notification channel, set exactly one target. */
+export interface NotificationChannelConfig {
+	/** Channel display name, unique among the channels */
+	name: string;
+	/** Email address to notify */
+	email?: string;
+	/** URL to post notifications to */
+	webhookUrl?: string;
+}
+
+/** Cloud Monitoring alerting, the "monitoring" configuration value. */
+export interface MonitoringConfig {
+	/** Create the baseline alert policies, default is true */
+	alertPolicies?: boolean;
+	/** Days before a TLS certificate expires to alert, default is 14 */
+	certificateExpiryDays?: number;
+	/**
+	 * Host names served by ingress-nginx whose TLS certificates are
+	 * checked for expiry
+	 */
+	certificateHosts?: string[];
+	/** Notification channels of the alert policies */
+	notificationChannels?: NotificationChannelConfig[];
+}
+
+/** Named CIDR block, e.g., for master authorized networks. */
+export interface CidrBlockConfig {
+	cidrBlock: string;
+	displayName?: string;
+}
+
+/** Kubernetes node taint. */
+export interface NodePoolTaint {
+	/** Taint effect, NO_SCHEDULE, PREFER_NO_SCHEDULE, or NO_EXECUTE */
+	effect: string;
+	key: string;
+	value: string;
+}
+
+/** GKE node pool configuration. */
+export interface NodePoolConfig {
+	/** Node pool name, must be unique within the cluster */
+	name: string;
+	/** Node boot disk size in GB, default is 100 */
+	diskSizeGb?: number;
+	/** Node boot disk type, default is "pd-standard" */
+	diskType?: string;
+	/** Kubernetes node labels, merged with the standard labels */
+	labels?: Record<string, string>;
+	/** Node machine type, default is the GKE `machineType` */
+	machineType?: string;
+	/** Maximum number of pods per node, default is 64 */
+	maxPodsPerNode?: number;
+	/** Autoscaling maximum, default is the GKE `maxNodeCount` */
+	maxNodeCount?: number;
+	/** Maximum number of nodes created during an upgrade, default is 1 */
+	maxSurge?: number;
+	/** Maximum number of nodes unavailable during an upgrade, default is 1 */
+	maxUnavailable?: number;
+	/** Autoscaling minimum, default is the GKE `minNodeCount` */
+	minNodeCount?: number;
+	/** Use preemptible VMs, default is false */
+	preemptible?: boolean;
+	/** Kubernetes node taints */
+	taints?: NodePoolTaint[];
+	/** Node zones, default is the GKE `zones` */
+	zones?: string[];
+}
+
+/** Node pool configuration with defaults applied. */
+export type ResolvedNodePoolConfig = Required<Omit<NodePoolConfig, "zones">> &
+	Pick<NodePoolConfig, "zones">;
+
+/**
+ * GKE addons of the cluster, the GKE `addons`. Addons without a
+ * default are left as GKE sets them.
+ */
+export interface GkeAddonsConfig {
+	/** Cloud Run for Anthos, needs `httpLoadBalancing`, default is false */
+	cloudRun?: boolean;
+	/** Config Connector */
+	configConnector?: boolean;
+	/** NodeLocal DNSCache, default is true */
+	dnsCache?: boolean;
+	/** Compute Engine persistent disk CSI driver */
+	gcePersistentDiskCsiDriver?: boolean;
+	/** Horizontal pod autoscaling, default is true */
+	horizontalPodAutoscaling?: boolean;
+	/** HTTP(S) load balancing for GKE ingresses, default is false */
+	httpLoadBalancing?: boolean;
+}
+
+/** Cluster-wide limit of a resource of auto-provisioned nodes. */
+export interface ResourceLimitConfig {
+	/** "cpu", "memory" in GB, or a GPU type like "nvidia-tesla-t4" */
+	resourceType: string;
+	/** Maximum amount of the resource in the cluster */
+	maximum: number;
+	/** Minimum amount of the resource in the cluster, default is 0 */
+	minimum?: number;
+}
+
+/** Cluster autoscaler and node auto-provisioning, the GKE `autoscaling`. */
+export interface ClusterAutoscalingConfig {
+	/**
+	 * Create node pools for pods that do not fit in the existing ones,
+	 * default is false
+	 */
+	autoProvisioning?: boolean;
+	/** "BALANCED", the GKE default, or "OPTIMIZE_UTILIZATION" */
+	profile?: string;
+	/** Limits of auto-provisioning, "cpu" and "memory" are required */
+	resourceLimits?: ResourceLimitConfig[];
+}
+
+/** GKE cluster configuration, the "gke" configuration value. */
+export interface GkeConfig {
+	addons?: GkeAddonsConfig;
+	autoscaling?: ClusterAutoscalingConfig;
+	channel?: string;
+	location?: string;
+	machineType?: string;
+	masterAuthorizedNetworkCidrBlocks?: CidrBlockConfig[];
+	maxNodeCount?: number;
+	minNodeCount?: number;
+	nodePools?: NodePoolConfig[];
+	/** Enable vertical pod autoscaling, default is false */
+	verticalPodAutoscaling?: boolean;
+	zones?: string[];
+}
+
+/**
+ * Cluster network address plan, the "network" configuration value.
+ * Ranges not explicitly provided are derived from `baseCidrBlock`.
+ */
+export interface NetworkConfig {
+	/** Block from which default ranges are derived, e.g., "10.16.0.0/12" */
+	baseCidrBlock?: string;
+	/** GKE control plane range, must be a /28 */
+	masterIpv4CidrBlock?: string;
+	/** Subnetwork secondary range for pods */
+	podsCidrBlock?: string;
+	/** Subnetwork secondary range for Kubernetes services */
+	servicesCidrBlock?: string;
+	/** Subnetwork primary range, used for node addresses */
+	subnetCidrBlock?: string;
+}
+
+/**
+ * Subnetwork of a Shared VPC host project to attach the cluster to
+ * instead of creating a network, the "sharedVpc" configuration value.
+ */
+export interface SharedVpcConfig {
+	/** Host project ID, setting it attaches the cluster to its subnetwork */
+	hostProject?: string;
+	/** Name of the subnetwork secondary range for pods */
+	podsRangeName?: string;
+	/** Name of the subnetwork secondary range for services */
+	servicesRangeName?: string;
+	/** Subnetwork name in the region */
+	subnetwork?: string;
+}
+
+/**
+ * Firewall rule of the cluster network, an entry in the "firewall"
+ * configuration value.
+ */
+export interface FirewallRuleConfig {
+	/** "allow", the default, or "deny" */
+	action?: string;
+	/** Description of the rule */
+	description?: string;
+	/** Destination CIDR blocks, required for an egress rule */
+	destinationRanges?: string[];
+	/** "INGRESS", the default, or "EGRESS" */
+	direction?: string;
+	/** Rule name, unique among the rules */
+	name: string;
+	/** Ports or port ranges like "8000-8999", default is all ports */
+	ports?: string[];
+	/** Priority from 0, the highest, to 65535, default is 1000 */
+	priority?: number;
+	/** Protocols like "tcp", "udp", or "all", default is ["tcp"] */
+	protocols?: string[];
+	/** Source CIDR blocks, required for an ingress rule */
+	sourceRanges?: string[];
+	/**
+	 * Network tags of the target instances, default is the cluster
+	 * nodes by their service account
+	 */
+	targetTags?: string[];
+}
+
+/**
+ * Denial of egress from the cluster network except to Google APIs,
+ * the cluster ranges, and an allowlist, the "egressLockdown"
+ * configuration value.
+ */
+export interface EgressLockdownConfig {
+	/** Destinations allowed besides Google APIs and the cluster ranges */
+	allowedCidrBlocks?: CidrBlockConfig[];
+	/** Deny egress, default is false */
+	enabled?: boolean;
+}
+
+/**
+ * Second ingress-nginx behind an internal TCP load balancer, the
+ * "internalIngress" configuration value.
+ */
+export interface InternalIngressConfig {
+	/** Deploy the internal ingress controller, default is false */
+	enabled?: boolean;
+	/** Ingress class of the controller, default is "nginx-internal" */
+	ingressClass?: string;
+	/**
+	 * Client CIDR blocks allowed to reach the load balancer, default
+	 * is the cluster subnetwork
+	 */
+	sourceRanges?: string[];
+}
+
+/** Cloud NAT idle timeouts in seconds. */
+export interface NatTimeoutsConfig {
+	/** ICMP idle timeout, default is 30 */
+	icmp?: number;
+	/** Established TCP connection idle timeout, default is 1200 */
+	tcpEstablished?: number;
+	/** Transitory TCP connection idle timeout, default is 30 */
+	tcpTransitory?: number;
+	/** UDP idle timeout, default is 30 */
+	udp?: number;
+}
+
+/** Cloud NAT of the cluster network, the "nat" configuration value. */
+export interface NatConfig {
+	/**
+	 * Number of reserved static egress addresses. The default, 0,
+	 * lets Cloud NAT allocate ephemeral addresses.
+	 */
+	addresses?: number;
+	/** Log NAT translations: "ERRORS_ONLY", "TRANSLATIONS_ONLY", or "ALL" */
+	logging?: string;
+	/** Minimum ports allocated to each node, default is 64 */
+	minPortsPerVm?: number;
+	/** Idle timeouts */
+	timeouts?: NatTimeoutsConfig;
+}
+
+/** Kubernetes RBAC subjects, identified by their Google account email. */
+export interface RbacSubjectsConfig {
+	/** Google Groups, requires the `rbac.securityGroup` */
+	groups?: string[];
+	/** GCP service accounts */
+	serviceAccounts?: string[];
+	/** Google accounts of people */
+	users?: string[];
+}
+
+/** Kubernetes role binding, an entry in `rbac.bindings`. */
+export interface RbacBindingConfig extends RbacSubjectsConfig {
+	/** Role binding name, unique within its namespace or the cluster */
+	name: string;
+	/**
+	 * Namespace of the role binding. If not provided, a cluster role
+	 * binding is created.
+	 */
+	namespace?: string;
+	/** Name of the role to bind */
+	role: string;
+	/**
+	 * "ClusterRole" or "Role", a role in the namespace. The default is
+	 * "ClusterRole".
+	 */
+	roleKind?: string;
+}
+
+/** Cluster access control, the "rbac" configuration value. */
+export interface RbacConfig {
+	/** Role bindings to create */
+	bindings?: RbacBindingConfig[];
+	/**
+	 * Deploy operators, bound to the cluster-admin cluster role. The
+	 * default is the "user" configuration value.
+	 */
+	operators?: RbacSubjectsConfig;
+	/**
+	 * Google Groups for RBAC security group, which must be named
+	 * "gke-security-groups@YOUR-DOMAIN"
+	 */
+	securityGroup?: string;
+}
+
+/** Default container resources in a tenant namespace. */
+export interface TenantLimitsConfig {
+	/** Default container CPU limit, default is "500m" */
+	cpu?: string;
+	/** Default container memory limit, default is "512Mi" */
+	memory?: string;
+	/** Default container CPU request, default is "100m" */
+	requestCpu?: string;
+	/** Default container memory request, default is "128Mi" */
+	requestMemory?: string;
+}
+
+/** Condition of an IAM role binding. */
+export interface IamConditionConfig {
+	/** Description of the condition */
+	description?: string;
+	/** Common Expression Language expression granting the role */
+	expression: string;
+	/** Title of the condition */
+	title: string;
+}
+
+/** GCP resource of a resource-level IAM role binding. */
+export interface IamResourceConfig {
+	/**
+	 * Bucket name, crypto key ID like
+	 * "projects/P/locations/L/keyRings/R/cryptoKeys/K", or secret or
+	 * topic name in the binding project
+	 */
+	name: string;
+	/** Resource type */
+	type: "bucket" | "cryptoKey" | "secret" | "topic";
+}
+
+/**
+ * IAM role binding of a workload identity GCP service account in a
+ * project or on a single resource.
+ */
+export interface WorkloadIdentityBindingConfig {
+	/** Condition of the binding */
+	condition?: IamConditionConfig;
+	/**
+	 * Project of the binding, or of the secret or topic: "cluster",
+	 * "dns", "kms", or a GCP project ID. The default is the project
+	 * of the workload identity.
+	 */
+	project?: string;
+	/** Resource of the binding, the default is the project */
+	resource?: IamResourceConfig;
+	/** GCP IAM role, predefined or custom */
+	role: string;
+}
+
+/** Workload identity of a tenant. */
+export interface TenantWorkloadIdentityConfig {
+	/** Role bindings in other projects or on resources */
+	bindings?: WorkloadIdentityBindingConfig[];
+	/** Project in which to bind the roles, see [[WorkloadIdentityConfig]] */
+	project?: string;
+	/** GCP IAM roles to bind to the GCP service account */
+	roles?: string[];
+	/** Kubernetes service account name, default is the namespace name */
+	serviceAccount?: string;
+}
+
+/**
+ * Application team namespace, an entry in the "tenants" configuration
+ * value.
+ */
+export interface TenantConfig {
+	/** Namespace name */
+	name: string;
+	/** Google Group of the team, requires the `rbac.securityGroup` */
+	group: string;
+	/** Default container resources */
+	limits?: TenantLimitsConfig;
+	/**
+	 * Resource quota hard limits, e.g., { "requests.cpu": "4" }, merged
+	 * with the default quota
+	 */
+	quota?: Record<string, string>;
+	/** Cluster role bound to the group in the namespace, default "edit" */
+	role?: string;
+	/**
+	 * Workload identity of the team, its Kubernetes service account is
+	 * created in the namespace
+	 */
+	workloadIdentity?: TenantWorkloadIdentityConfig;
+}
+
+/**
+ * GKE workload identity, an entry in the "workloadIdentities"
+ * configuration value.
+ */
+export interface WorkloadIdentityConfig {
+	/** Role bindings in other projects or on resources */
+	bindings?: WorkloadIdentityBindingConfig[];
+	/** Kubernetes service account namespace */
+	namespace: string;
+	/**
+	 * Project in which to bind the roles: "cluster", "dns", "kms", or
+	 * a GCP project ID. The default is "cluster".
+	 */
+	project?: string;
+	/** GCP IAM roles to bind to the GCP service account in the project */
+	roles?: string[];
+	/** Kubernetes service account name */
+	serviceAccount: string;
+}
+
+/**
+ * Stack configuration values as provided by the user, before defaults
+ * are applied.
+ */
+export interface StackConfig {
+	acme: AcmeConfig;
+	addons: AddonsConfig;
+	/** Whether the billingAccount configuration value is set */
+	billingAccount: boolean;
+	budgets: BudgetsConfig;
+	dns: DnsConfig;
+	dnsName: string;
+	egressLockdown: EgressLockdownConfig;
+	env: string;
+	firewall: FirewallRuleConfig[];
+	gke: GkeConfig;
+	internalIngress: InternalIngressConfig;
+	kms: KmsConfig;
+	kubeconfig: KubeconfigConfig;
+	monitoring: MonitoringConfig;
+	nat: NatConfig;
+	network: NetworkConfig;
+	privateEndpoint: PrivateEndpointConfig;
+	projects: ProjectsConfig;
+	purpose: string;
+	rbac: RbacConfig;
+	region: string;
+	sharedVpc: SharedVpcConfig;
+	tenants: TenantConfig[];
+	workloadIdentities: WorkloadIdentityConfig[];
+}
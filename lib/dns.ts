@@ -0,0 +1,223 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as gcp from "@pulumi/gcp";
+import * as pulumi from "@pulumi/pulumi";
+import { childOptions, ComponentArgs, prefixName } from "./component";
+import { componentProject, ProjectPlacementArgs } from "./project";
+
+/** Cloud DNS managed zone in a project. */
+export interface DnsZoneRef {
+	/** Managed zone name, not its DNS name */
+	name: string;
+	/** GCP project ID of the zone */
+	project: pulumi.Input<string>;
+}
+
+/** Arguments for [[DnsProject]]. */
+export interface DnsProjectArgs extends ComponentArgs, ProjectPlacementArgs {
+	/** DNS zone name, with trailing dot */
+	dnsName: string;
+	/**
+	 * Existing public zone of [[dnsName]] to use instead of creating
+	 * one
+	 */
+	existingZone?: DnsZoneRef;
+	/** Resource labels */
+	labels: Record<string, string>;
+	/**
+	 * Zone of the parent domain to create the NS and DS records
+	 * delegating [[dnsName]] in
+	 */
+	parentZone?: DnsZoneRef;
+	/** Private zone to create and attach to the network */
+	privateZone?: {
+		/** DNS name of the private zone, with trailing dot */
+		dnsName: string;
+		/** ID of the network the zone is visible to */
+		network: pulumi.Input<string>;
+	};
+	/** GCP project ID */
+	projectId: string;
+}
+
+/** DNS name without the trailing dot and with "-" for ".". */
+function dnsResourceName(dnsName: string): string {
+	return dnsName.replace(/\.$/, "").replace(/\./g, "-");
+}
+
+/**
+ * GCP project, created or existing, with a public, DNSSEC-enabled
+ * Cloud DNS zone, or an existing zone, optionally delegated from a
+ * parent Cloud DNS zone, and an optional private zone.
+ */
+export class DnsProject extends pulumi.ComponentResource {
+	/**
+	 * DS records of the zone key signing keys, to register with the
+	 * parent domain
+	 */
+	readonly dsRecords: pulumi.Output<string[]>;
+	/** Name servers of the public zone */
+	readonly nameServers: pulumi.Output<string[]>;
+	readonly privateZone?: gcp.dns.ManagedZone;
+	/** Project resource, unless the project exists */
+	readonly project?: gcp.organizations.Project;
+	/** GCP project ID, available once the project exists */
+	readonly projectId: pulumi.Output<string>;
+	/** Project number */
+	readonly projectNumber: pulumi.Output<string>;
+	/** Public zone, unless an existing zone is used */
+	readonly zone?: gcp.dns.ManagedZone;
+	/** Managed zone name of the public zone */
+	readonly zoneName: pulumi.Output<string>;
+	/** GCP project ID of the public zone */
+	readonly zoneProject: pulumi.Output<string>;
+
+	constructor(
+		name: string,
+		args: DnsProjectArgs,
+		opts?: pulumi.ComponentResourceOptions,
+	) {
+		super("iac-gke:index:DnsProject", name, {}, opts);
+
+		const project = componentProject(this, {
+			...args,
+			name: "Kubernetes DNS Infrastructure",
+		});
+		this.project = project.project;
+		this.projectId = project.projectId;
+		this.projectNumber = project.number;
+		const dnsService = new gcp.projects.Service(
+			prefixName(args, `${args.projectId}-dns-service`),
+			{
+				disableOnDestroy: args.existingProject ? false : undefined,
+				project: this.projectId,
+				service: "dns.googleapis.com",
+			},
+			childOptions(this),
+		);
+		if (args.existingZone) {
+			const existingZone = args.existingZone;
+			this.zoneProject = pulumi.output(existingZone.project);
+			const zone = this.zoneProject.apply(project =>
+				gcp.dns.getManagedZone(
+					{ name: existingZone.name, project },
+					{ parent: this },
+				),
+			);
+			this.nameServers = zone.nameServers;
+			this.zoneName = zone.name;
+		} else {
+			this.zoneProject = this.projectId;
+			this.zone = new gcp.dns.ManagedZone(
+				prefixName(args, `${dnsResourceName(args.dnsName)}-zone`),
+				{
+					description: "Kubernetes DNS zone",
+					dnsName: args.dnsName,
+					dnssecConfig: {
+						state: "on",
+					},
+					labels: args.labels,
+					project: this.projectId,
+					visibility: "public",
+				},
+				childOptions(this, { dependsOn: [dnsService] }),
+			);
+			this.nameServers = this.zone.nameServers;
+			// unknown until the zone exists, so its keys are not looked up
+			// during a preview
+			this.zoneName = pulumi
+				.all([this.zone.id, this.zone.name])
+				.apply(([, zoneName]) => zoneName);
+		}
+		this.dsRecords = pulumi
+			.all([this.zoneName, this.zoneProject])
+			.apply(([managedZone, project]) =>
+				gcp.dns.getKeys({ managedZone, project }, { parent: this }),
+			)
+			.apply(keys =>
+				(keys.keySigningKeys || [])
+					.filter(k => k.isActive)
+					.map(k => k.dsRecord),
+			);
+
+		if (args.parentZone) {
+			const delegationName = dnsResourceName(args.dnsName);
+			new gcp.dns.RecordSet(
+				prefixName(args, `${delegationName}-ns`),
+				{
+					managedZone: args.parentZone.name,
+					name: args.dnsName,
+					project: args.parentZone.project,
+					rrdatas: this.nameServers,
+					ttl: 3600,
+					type: "NS",
+				},
+				childOptions(this),
+			);
+			const parentZone = args.parentZone;
+			const dsRecordSet = (rrdatas: pulumi.Input<string[]>) =>
+				new gcp.dns.RecordSet(
+					prefixName(args, `${delegationName}-ds`),
+					{
+						managedZone: parentZone.name,
+						name: args.dnsName,
+						project: parentZone.project,
+						rrdatas,
+						ttl: 3600,
+						type: "DS",
+					},
+					childOptions(this),
+				);
+			if (args.existingZone) {
+				// an existing zone may not use DNSSEC, and a record set
+				// needs records, its keys are known during a preview too
+				this.dsRecords.apply(records => {
+					if (records.length > 0) {
+						dsRecordSet(records);
+					}
+				});
+			} else {
+				dsRecordSet(this.dsRecords);
+			}
+		}
+
+		if (args.privateZone) {
+			this.privateZone = new gcp.dns.ManagedZone(
+				prefixName(
+					args,
+					`${dnsResourceName(args.privateZone.dnsName)}-private-zone`,
+				),
+				{
+					description: "Kubernetes private DNS zone",
+					dnsName: args.privateZone.dnsName,
+					labels: args.labels,
+					privateVisibilityConfig: {
+						networks: [{ networkUrl: args.privateZone.network }],
+					},
+					project: this.projectId,
+					visibility: "private",
+				},
+				childOptions(this, { dependsOn: [dnsService] }),
+			);
+		}
+
+		this.registerOutputs({
+			dsRecords: this.dsRecords,
+			nameServers: this.nameServers,
+		});
+	}
+}
@@ -0,0 +1,221 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as gcp from "@pulumi/gcp";
+import * as pulumi from "@pulumi/pulumi";
+import { childOptions, ComponentArgs, prefixName } from "./component";
+import { FirewallRuleConfig } from "./config";
+import { egressDenyPriority } from "./validate";
+
+/**
+ * Private Google Access addresses, private.googleapis.com, reachable
+ * from a network without access to the internet.
+ */
+export const privateGoogleAccessCidrBlock = "199.36.153.8/30";
+
+/**
+ * Domains of the Google APIs and container registries resolved to
+ * the Private Google Access addresses during an egress lockdown.
+ */
+const privateGoogleAccessDomains = ["googleapis.com", "gcr.io", "pkg.dev"];
+
+/** Protocols whose firewall rules can restrict ports. */
+const portProtocols = ["sctp", "tcp", "udp"];
+
+/** Arguments for [[ClusterFirewall]]. */
+export interface ClusterFirewallArgs extends ComponentArgs {
+	/**
+	 * Deny all egress except to Google APIs, the cluster ranges, and
+	 * these destination CIDR blocks. Egress is not restricted if not
+	 * provided.
+	 */
+	egressLockdown?: {
+		/** Destinations allowed besides Google APIs */
+		allowedCidrBlocks: string[];
+		/** Ranges of the cluster network and control plane */
+		clusterCidrBlocks: string[];
+	};
+	/** Cluster network ID */
+	network: pulumi.Input<string>;
+	/** Email of the node service account, the default rule target */
+	nodeServiceAccount: pulumi.Input<string>;
+	/** GCP project ID of the network */
+	project: pulumi.Input<string>;
+	/** Firewall rules */
+	rules: FirewallRuleConfig[];
+}
+
+/**
+ * Deny all egress at a low priority, allow egress to the
+ * destinations, and resolve the Google API and registry domains to
+ * the Private Google Access addresses so they stay reachable.
+ */
+function lockDownEgress(
+	parent: pulumi.Resource,
+	args: ClusterFirewallArgs,
+): gcp.compute.Firewall[] {
+	const lockdown = args.egressLockdown!;
+	const rules: gcp.compute.Firewall[] = [];
+	const allowed: Record<string, string[]> = {
+		cluster: lockdown.clusterCidrBlocks,
+		"google-apis": [privateGoogleAccessCidrBlock],
+	};
+	if (lockdown.allowedCidrBlocks.length > 0) {
+		allowed.list = lockdown.allowedCidrBlocks;
+	}
+	for (const [key, destinationRanges] of Object.entries(allowed)) {
+		rules.push(
+			new gcp.compute.Firewall(
+				prefixName(args, `fw-egress-allow-${key}`),
+				{
+					allows: [{ protocol: "all" }],
+					description: `Egress lockdown: allow egress to ${key}`,
+					destinationRanges,
+					direction: "EGRESS",
+					network: args.network,
+					priority: 1000,
+					project: args.project,
+				},
+				childOptions(parent),
+			),
+		);
+	}
+	rules.push(
+		new gcp.compute.Firewall(
+			prefixName(args, "fw-egress-deny-all"),
+			{
+				denies: [{ protocol: "all" }],
+				description: "Egress lockdown: deny all other egress",
+				destinationRanges: ["0.0.0.0/0"],
+				direction: "EGRESS",
+				network: args.network,
+				priority: egressDenyPriority,
+				project: args.project,
+			},
+			childOptions(parent),
+		),
+	);
+
+	const dnsService = new gcp.projects.Service(
+		prefixName(args, "fw-dns-service"),
+		{
+			disableOnDestroy: false,
+			project: args.project,
+			service: "dns.googleapis.com",
+		},
+		childOptions(parent),
+	);
+	const privateGoogleAccessIps = [8, 9, 10, 11].map(i => `199.36.153.${i}`);
+	for (const domain of privateGoogleAccessDomains) {
+		const zoneName = `${domain.replace(/\./g, "-")}-private-google-access`;
+		const zone = new gcp.dns.ManagedZone(
+			prefixName(args, `${zoneName}-zone`),
+			{
+				description: `Private Google Access for ${domain}`,
+				dnsName: `${domain}.`,
+				privateVisibilityConfig: {
+					networks: [{ networkUrl: args.network }],
+				},
+				project: args.project,
+				visibility: "private",
+			},
+			childOptions(parent, { dependsOn: [dnsService] }),
+		);
+		const apex =
+			domain === "googleapis.com"
+				? "private.googleapis.com."
+				: `${domain}.`;
+		new gcp.dns.RecordSet(
+			prefixName(args, `${zoneName}-a`),
+			{
+				managedZone: zone.name,
+				name: apex,
+				project: args.project,
+				rrdatas: privateGoogleAccessIps,
+				ttl: 300,
+				type: "A",
+			},
+			childOptions(parent),
+		);
+		new gcp.dns.RecordSet(
+			prefixName(args, `${zoneName}-cname`),
+			{
+				managedZone: zone.name,
+				name: `*.${domain}.`,
+				project: args.project,
+				rrdatas: [apex],
+				ttl: 300,
+				type: "CNAME",
+			},
+			childOptions(parent),
+		);
+	}
+	return rules;
+}
+
+/**
+ * Firewall rules of the cluster network, and an optional egress
+ * lockdown that denies egress except to Google APIs, through Private
+ * Google Access, the cluster network, and an allowlist.
+ */
+export class ClusterFirewall extends pulumi.ComponentResource {
+	readonly rules: gcp.compute.Firewall[] = [];
+
+	constructor(
+		name: string,
+		args: ClusterFirewallArgs,
+		opts?: pulumi.ComponentResourceOptions,
+	) {
+		super("iac-gke:index:ClusterFirewall", name, {}, opts);
+
+		for (const rule of args.rules) {
+			const protocols = (rule.protocols || ["tcp"]).map(protocol => ({
+				ports: portProtocols.includes(protocol)
+					? rule.ports
+					: undefined,
+				protocol,
+			}));
+			const deny = rule.action === "deny";
+			this.rules.push(
+				new gcp.compute.Firewall(
+					prefixName(args, `fw-${rule.name}`),
+					{
+						allows: deny ? undefined : protocols,
+						denies: deny ? protocols : undefined,
+						description: rule.description,
+						destinationRanges: rule.destinationRanges,
+						direction: rule.direction || "INGRESS",
+						network: args.network,
+						priority: rule.priority ?? 1000,
+						project: args.project,
+						sourceRanges: rule.sourceRanges,
+						targetServiceAccounts: rule.targetTags
+							? undefined
+							: [args.nodeServiceAccount],
+						targetTags: rule.targetTags,
+					},
+					childOptions(this),
+				),
+			);
+		}
+
+		if (args.egressLockdown) {
+			this.rules.push(...lockDownEgress(this, args));
+		}
+
+		this.registerOutputs({});
+	}
+}
@@ -16,6 +16,9 @@
 
 import * as gcp from "@pulumi/gcp";
 import * as pulumi from "@pulumi/pulumi";
+import * as crypto from "crypto";
+import { prefixName } from "./component";
+import { WorkloadIdentityBindingConfig } from "./config";
 
 /**
  * Remove "roles/" from IAM role identifier, replace "." with "-", and
@@ -29,21 +32,96 @@ export function simpleRoleName(role: string): string {
 		.toLowerCase();
 }
 
+/**
+ * Lowercase the string and replace anything other than letters and
+ * digits with "-", creating a string safe to use in a resource name.
+ */
+export function slug(s: string): string {
+	return s
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-|-$/g, "");
+}
+
+/**
+ * GCP service account ID of a workload identity, "sa-wi-" followed by
+ * the Kubernetes service account name. Account IDs are at most 30
+ * characters, so a longer ID is truncated and suffixed with a hash of
+ * the Kubernetes service account namespace and name, keeping it
+ * unique. Set `shared` if the Kubernetes service account name is
+ * used in more than one namespace, which adds the hash to short IDs
+ * too.
+ */
+export function workloadIdentityAccountId(
+	namespace: string,
+	workload: string,
+	shared = false,
+): string {
+	const accountId = `sa-wi-${workload}`;
+	if (accountId.length <= 30 && !shared) {
+		return accountId;
+	}
+	const hash = crypto
+		.createHash("sha256")
+		.update(`${namespace}/${workload}`)
+		.digest("hex")
+		.substring(0, 6);
+	return `${accountId.substring(0, 23).replace(/-+$/, "")}-${hash}`;
+}
+
+/**
+ * Name of a workload identity binding in the names of its resources,
+ * made of its project or resource, role, and condition title.
+ */
+export function workloadIdentityBindingName(
+	binding: WorkloadIdentityBindingConfig,
+): string {
+	const target = binding.resource
+		? slug(`${binding.resource.type}-${binding.resource.name}`)
+		: slug(binding.project || "project");
+	const condition = binding.condition
+		? `-${slug(binding.condition.title)}`
+		: "";
+	return `${target}-${simpleRoleName(binding.role)}${condition}`;
+}
+
+/** Role binding of a workload identity GCP service account. */
+export interface WorkloadIdentityBinding extends WorkloadIdentityBindingConfig {
+	/**
+	 * GCP project ID of the binding, or of the secret or topic. If not
+	 * provided, [[WorkloadIdentityConfiguration.projectId]] is used.
+	 * The `project` is only used in the resource names.
+	 */
+	projectId?: pulumi.Output<string>;
+}
+
 /** GKE workload identity configuration. */
 export interface WorkloadIdentityConfiguration {
+	/**
+	 * Role bindings in other projects, on single resources, or with
+	 * conditions
+	 */
+	bindings?: WorkloadIdentityBinding[];
 	/** GCP project ID to create resources */
 	projectId: pulumi.Output<string>;
-	/** GCP IAM roles to bind to service account */
+	/** GCP IAM roles to bind to service account in [[projectId]] */
 	projectRoles: string[];
 	/** Kubernetes service account name */
 	workload: string;
 	/** Kubernetes service account namespace */
 	workloadNamespace: string;
+	/**
+	 * True if the Kubernetes service account name is used in other
+	 * namespaces, see [[workloadIdentityAccountId]]
+	 */
+	sharedWorkload?: boolean;
 	/**
 	 * Options to use when creating the resources. The Kubernetes
 	 * provider will be automatically set as the provider.
 	 */
 	options?: pulumi.CustomResourceOptions;
+	/** Prefix for the names of the resources created */
+	resourcePrefix?: string;
 	/**
 	 * GCP project ID of workload. If not provided, [[projectId]] is
 	 * used.
@@ -51,18 +129,84 @@ export interface WorkloadIdentityConfiguration {
 	workloadProject?: pulumi.Output<string>;
 }
 
+/**
+ * Bind a role to the workload identity service account `member` in
+ * a project or on a single resource. All bindings are
+ * non-authoritative, leaving other members of the role alone.
+ */
+function bindWorkloadIdentity(
+	wi: WorkloadIdentityConfiguration,
+	binding: WorkloadIdentityBinding,
+	member: pulumi.Output<string>,
+): void {
+	const accountId = workloadIdentityAccountId(
+		wi.workloadNamespace,
+		wi.workload,
+		wi.sharedWorkload,
+	);
+	const name = prefixName(
+		wi,
+		`${accountId}-${workloadIdentityBindingName(binding)}-member`,
+	);
+	const project = binding.projectId || wi.projectId;
+	const args = { condition: binding.condition, member, role: binding.role };
+	switch (binding.resource?.type) {
+		case undefined:
+			new gcp.projects.IAMMember(name, { ...args, project }, wi.options);
+			break;
+		case "bucket":
+			new gcp.storage.BucketIAMMember(
+				name,
+				{ ...args, bucket: binding.resource.name },
+				wi.options,
+			);
+			break;
+		case "cryptoKey":
+			new gcp.kms.CryptoKeyIAMMember(
+				name,
+				{ ...args, cryptoKeyId: binding.resource.name },
+				wi.options,
+			);
+			break;
+		case "secret":
+			new gcp.secretmanager.SecretIamMember(
+				name,
+				{ ...args, project, secretId: binding.resource.name },
+				wi.options,
+			);
+			break;
+		case "topic":
+			new gcp.pubsub.TopicIAMMember(
+				name,
+				{ ...args, project, topic: binding.resource.name },
+				wi.options,
+			);
+			break;
+		default:
+			throw new Error(
+				`unsupported IAM resource type ${binding.resource?.type}`,
+			);
+	}
+}
+
 /**
  * Create a GCP service account for workload identity, bind the
  * provided roles to the GCP service account, and then link the GCP
  * service account to the Kubernetes workload, i.e., service account.
+ * The link is a non-authoritative binding, so other members of the
+ * GCP service account IAM policy are kept.
  */
 export function workloadIdentity(
 	wi: WorkloadIdentityConfiguration,
 ): gcp.serviceAccount.Account {
 	const workloadProject = wi.workloadProject || wi.projectId;
-	const wiServiceAccountName = `sa-wi-${wi.workload}`.substring(0, 30);
+	const wiServiceAccountName = workloadIdentityAccountId(
+		wi.workloadNamespace,
+		wi.workload,
+		wi.sharedWorkload,
+	);
 	const wiServiceAccount = new gcp.serviceAccount.Account(
-		wiServiceAccountName,
+		prefixName(wi, wiServiceAccountName),
 		{
 			accountId: wiServiceAccountName,
 			description: `GKE Workload Identity Service Account for ${wi.workloadNamespace}/${wi.workload}`,
@@ -71,38 +215,61 @@ export function workloadIdentity(
 		},
 		wi.options,
 	);
+	const member = pulumi.concat("serviceAccount:", wiServiceAccount.email);
 	for (const role of wi.projectRoles) {
 		new gcp.projects.IAMMember(
-			`sa-wi-${wi.workload}-${simpleRoleName(role)}-member`,
+			prefixName(
+				wi,
+				`${wiServiceAccountName}-${simpleRoleName(role)}-member`,
+			),
 			{
-				member: pulumi.concat(
-					"serviceAccount:",
-					wiServiceAccount.email,
-				),
+				member,
 				project: wi.projectId,
 				role,
 			},
 			wi.options,
 		);
 	}
-	new gcp.serviceAccount.IAMPolicy(
-		`sa-wi-${wi.workload}-policy`,
+	for (const binding of wi.bindings || []) {
+		bindWorkloadIdentity(wi, binding, member);
+	}
+	new gcp.serviceAccount.IAMMember(
+		prefixName(wi, `${wiServiceAccountName}-workload-identity-user`),
 		{
-			policyData: workloadProject.apply(wpId =>
-				JSON.stringify({
-					bindings: [
-						{
-							members: [
-								`serviceAccount:${wpId}.svc.id.goog[${wi.workloadNamespace}/${wi.workload}]`,
-							],
-							role: "roles/iam.workloadIdentityUser",
-						},
-					],
-				}),
-			),
+			member: pulumi.interpolate`serviceAccount:${workloadProject}.svc.id.goog[${wi.workloadNamespace}/${wi.workload}]`,
+			role: "roles/iam.workloadIdentityUser",
 			serviceAccountId: wiServiceAccount.id,
 		},
 		wi.options,
 	);
 	return wiServiceAccount;
 }
+
+/**
+ * Create a Kubernetes YAML transformation that annotates every
+ * Kubernetes service account with a GCP workload identity service
+ * account. The keys of `serviceAccounts` are the Kubernetes service
+ * account namespace and name separated by "/", i.e.,
+ * "NAMESPACE/NAME".
+ */
+export function workloadIdentityTransformation(
+	serviceAccounts: Record<string, gcp.serviceAccount.Account>,
+): (spec: any) => void {
+	return (spec: any): void => {
+		if (spec?.kind !== "ServiceAccount" || !spec.metadata?.name) {
+			return;
+		}
+		const key = `${spec.metadata.namespace || "default"}/${
+			spec.metadata.name
+		}`;
+		const serviceAccount = serviceAccounts[key];
+		if (!serviceAccount) {
+			return;
+		}
+		if (!spec.metadata.annotations) {
+			spec.metadata.annotations = {};
+		}
+		spec.metadata.annotations["iam.gke.io/gcp-service-account"] =
+			serviceAccount.email;
+	};
+}
@@ -0,0 +1,36 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export * from "./addons";
+export * from "./bastion";
+export * from "./budget";
+export * from "./cidr";
+export * from "./cluster";
+export * from "./component";
+export * from "./config";
+export * from "./dns";
+export * from "./firewall";
+export * from "./iam";
+export * from "./kms";
+export * from "./kubeconfig";
+export * from "./manifests";
+export * from "./monitoring";
+export * from "./network";
+export * from "./project";
+export * from "./rbac";
+export * from "./resolve";
+export * from "./tenant";
+export * from "./validate";
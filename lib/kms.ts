@@ -0,0 +1,149 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as gcp from "@pulumi/gcp";
+import * as pulumi from "@pulumi/pulumi";
+import { childOptions, ComponentArgs, prefixName } from "./component";
+import { componentProject, ProjectPlacementArgs } from "./project";
+
+/** Purposes of the keys of a [[KmsProject]]. */
+export type KmsKeyPurpose = "bootDisk" | "secrets" | "storage";
+
+/** Names of the keys by purpose. */
+const keyNames: Record<KmsKeyPurpose, string> = {
+	bootDisk: "gke-boot-disk-key",
+	secrets: "gke-key",
+	storage: "gke-storage-key",
+};
+
+/** Arguments for [[KmsProject]]. */
+export interface KmsProjectArgs extends ComponentArgs, ProjectPlacementArgs {
+	/** IAM members allowed to encrypt and decrypt with each key */
+	encrypterDecrypters: Record<KmsKeyPurpose, pulumi.Input<string>[]>;
+	/** Resource labels */
+	labels: Record<string, string>;
+	/** Key ring location */
+	location: string;
+	/** GCP project ID */
+	projectId: string;
+	/** Protection level of the key versions, "SOFTWARE" or "HSM" */
+	protectionLevel: string;
+	/** Days between automatic rotations of the keys */
+	rotationDays: number;
+}
+
+/**
+ * GCP project, created or existing, with a Cloud KMS key ring and
+ * keys used for GKE application-layer secrets encryption, node boot
+ * disks, and Cloud Storage buckets.
+ */
+export class KmsProject extends pulumi.ComponentResource {
+	/** Project resource, unless the project exists */
+	readonly project?: gcp.organizations.Project;
+	/** GCP project ID, available once the project exists */
+	readonly projectId: pulumi.Output<string>;
+	/** Project number */
+	readonly projectNumber: pulumi.Output<string>;
+	readonly keyRing: gcp.kms.KeyRing;
+	/** Key used for secrets encryption */
+	readonly key: gcp.kms.CryptoKey;
+	readonly keys: Record<KmsKeyPurpose, gcp.kms.CryptoKey>;
+	/**
+	 * Key IDs, available once the encrypter-decrypters are allowed to
+	 * use the keys
+	 */
+	readonly keyIds: Record<KmsKeyPurpose, pulumi.Output<string>>;
+
+	constructor(
+		name: string,
+		args: KmsProjectArgs,
+		opts?: pulumi.ComponentResourceOptions,
+	) {
+		super("iac-gke:index:KmsProject", name, {}, opts);
+
+		const project = componentProject(this, {
+			...args,
+			name: "Kubernetes KMS Infrastructure",
+		});
+		this.project = project.project;
+		this.projectId = project.projectId;
+		this.projectNumber = project.number;
+		const kmsService = new gcp.projects.Service(
+			prefixName(args, `${args.projectId}-cloudkms-service`),
+			{
+				disableOnDestroy: args.existingProject ? false : undefined,
+				project: this.projectId,
+				service: "cloudkms.googleapis.com",
+			},
+			childOptions(this),
+		);
+		this.keyRing = new gcp.kms.KeyRing(
+			prefixName(args, "gke-key-ring"),
+			{
+				location: args.location,
+				project: this.projectId,
+			},
+			childOptions(this, { dependsOn: [kmsService] }),
+		);
+
+		this.keys = {} as Record<KmsKeyPurpose, gcp.kms.CryptoKey>;
+		this.keyIds = {} as Record<KmsKeyPurpose, pulumi.Output<string>>;
+		for (const purpose of Object.keys(keyNames) as KmsKeyPurpose[]) {
+			const keyName = keyNames[purpose];
+			const key = new gcp.kms.CryptoKey(
+				prefixName(args, keyName),
+				{
+					keyRing: this.keyRing.id,
+					labels: args.labels,
+					purpose: "ENCRYPT_DECRYPT",
+					rotationPeriod: `${args.rotationDays * 86400}s`,
+					versionTemplate: {
+						algorithm: "GOOGLE_SYMMETRIC_ENCRYPTION",
+						protectionLevel: args.protectionLevel,
+					},
+				},
+				childOptions(this),
+			);
+			const policy = new gcp.kms.CryptoKeyIAMPolicy(
+				prefixName(args, `${keyName}-iam-policy`),
+				{
+					cryptoKeyId: key.id,
+					policyData: pulumi
+						.all(args.encrypterDecrypters[purpose])
+						.apply(members =>
+							JSON.stringify({
+								bindings: [
+									{
+										members,
+										role:
+											"roles/cloudkms.cryptoKeyEncrypterDecrypter",
+									},
+								],
+							}),
+						),
+				},
+				childOptions(this, { dependsOn: [kmsService] }),
+			);
+			this.keys[purpose] = key;
+			this.keyIds[purpose] = pulumi
+				.all([key.id, policy.etag])
+				.apply(([id]) => id);
+		}
+		this.key = this.keys.secrets;
+
+		this.registerOutputs({ key: this.key.id, keys: this.keyIds });
+	}
+}
@@ -0,0 +1,76 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/** Cluster details and options of a kubeconfig, see [[kubeconfig]]. */
+export interface KubeconfigOptions {
+	/** Base64-encoded cluster CA certificate */
+	clusterCaCertificate: string;
+	/** GKE cluster name */
+	clusterName: string;
+	/** Address of the Kubernetes API, the public or private endpoint */
+	endpoint: string;
+	/** Email of a GCP service account to impersonate */
+	impersonateServiceAccount?: string;
+	/** GKE cluster location */
+	location: string;
+	/** GCP project ID of the cluster */
+	projectId: string;
+	/** Proxy to reach the endpoint through */
+	proxyUrl?: string;
+}
+
+/**
+ * Return a kubeconfig for the cluster that gets credentials from the
+ * gke-gcloud-auth-plugin exec credential plugin, the same context
+ * name as "gcloud container clusters get-credentials" uses.
+ */
+export function kubeconfig(o: KubeconfigOptions): string {
+	const context = `gke_${o.projectId}_${o.location}_${o.clusterName}`;
+	const env = o.impersonateServiceAccount
+		? `
+      - name: CLOUDSDK_AUTH_IMPERSONATE_SERVICE_ACCOUNT
+        value: ${o.impersonateServiceAccount}`
+		: " null";
+	const proxy = o.proxyUrl
+		? `
+    proxy-url: ${o.proxyUrl}`
+		: "";
+	return `apiVersion: v1
+clusters:
+- cluster:
+    certificate-authority-data: ${o.clusterCaCertificate}${proxy}
+    server: https://${o.endpoint}
+  name: ${context}
+contexts:
+- context:
+    cluster: ${context}
+    user: ${context}
+  name: ${context}
+current-context: ${context}
+kind: Config
+preferences: {}
+users:
+- name: ${context}
+  user:
+    exec:
+      apiVersion: client.authentication.k8s.io/v1beta1
+      command: gke-gcloud-auth-plugin
+      env:${env}
+      installHint: Install gke-gcloud-auth-plugin for use with kubectl by following
+        https://cloud.google.com/blog/products/containers-kubernetes/kubectl-auth-changes-in-gke
+      provideClusterInfo: true
+`;
+}
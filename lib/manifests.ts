@@ -0,0 +1,98 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+/** Cluster addons installed from vendored manifests. */
+export type Addon = "cert-manager" | "external-dns" | "ingress-nginx";
+
+/** Vendored manifest of one version of an addon. */
+export interface AddonVersion {
+	/** Manifest file path relative to the manifest directory */
+	file: string;
+	/** Hex-encoded SHA-256 checksum of the manifest file */
+	sha256: string;
+}
+
+/** Available versions of an addon. */
+export interface AddonVersions {
+	/** Version used when none is configured */
+	default: string;
+	/**
+	 * URL of the upstream manifest, "{version}" is replaced with the
+	 * version. Addons without a URL are maintained in this project.
+	 */
+	url?: string;
+	/** Vendored versions */
+	versions: Record<string, AddonVersion>;
+}
+
+/**
+ * Version manifest, the addons.json file in the manifest directory,
+ * listing the vendored versions of each addon.
+ */
+export type VersionManifest = Record<Addon, AddonVersions>;
+
+/** Directory of the manifests vendored in this project. */
+export const defaultManifestDirectory = path.join(__dirname, "..", "k8s");
+
+/** Name of the version manifest file in the manifest directory. */
+export const versionManifestFile = "addons.json";
+
+/** Read the version manifest in the manifest directory. */
+export function readVersionManifest(directory: string): VersionManifest {
+	return JSON.parse(
+		fs.readFileSync(path.join(directory, versionManifestFile), "utf8"),
+	);
+}
+
+/** Return the hex-encoded SHA-256 checksum of the file contents. */
+export function sha256(file: string): string {
+	return crypto
+		.createHash("sha256")
+		.update(fs.readFileSync(file))
+		.digest("hex");
+}
+
+/**
+ * Return the path of the vendored manifest for the addon version
+ * after verifying its checksum. Throw an error if the version is not
+ * vendored or the manifest does not match its checksum.
+ */
+export function vendoredManifest(
+	directory: string,
+	addon: Addon,
+	version: string,
+): string {
+	const manifest = readVersionManifest(directory);
+	const vendored = manifest[addon]?.versions[version];
+	if (!vendored) {
+		throw new Error(
+			`Version ${version} of ${addon} is not vendored in ${directory}, run "npm run vendor -- ${addon} ${version}"`,
+		);
+	}
+	const file = path.resolve(directory, vendored.file);
+	const checksum = sha256(file);
+	if (checksum !== vendored.sha256) {
+		throw new Error(
+			`Checksum of ${file} is ${checksum} but ${versionManifestFile} lists ${vendored.sha256}, ` +
+				`refusing to apply a manifest that has been modified`,
+		);
+	}
+	return file;
+}
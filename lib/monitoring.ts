@@ -0,0 +1,340 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as gcp from "@pulumi/gcp";
+import * as pulumi from "@pulumi/pulumi";
+import { childOptions, ComponentArgs, prefixName } from "./component";
+import { NotificationChannelConfig } from "./config";
+
+/** Arguments for [[ClusterMonitoring]]. */
+export interface ClusterMonitoringArgs extends ComponentArgs {
+	/** Create the baseline alert policies */
+	alertPolicies: boolean;
+	/** Days before a TLS certificate expires to alert */
+	certificateExpiryDays: number;
+	/** Host names whose TLS certificates are checked for expiry */
+	certificateHosts: string[];
+	/** GKE cluster name */
+	clusterName: pulumi.Input<string>;
+	/** Reserved IP address of the ingress-nginx load balancer */
+	ingressIpAddress: pulumi.Input<string>;
+	/** Resource labels */
+	labels: Record<string, string>;
+	/** Whether the cluster project is existing, its API is left enabled */
+	existingProject?: boolean;
+	/** Cloud NAT gateway name, if the stack manages Cloud NAT */
+	natName?: pulumi.Input<string>;
+	/** Namespaces of the cluster addons whose pods are watched */
+	namespaces: string[];
+	/** Notification channels to create */
+	notificationChannels: NotificationChannelConfig[];
+	/** Node pools and the number of nodes they can scale to */
+	nodePools: Array<{ name: pulumi.Input<string>; maxNodes: number }>;
+	/** GCP project ID of the cluster */
+	project: pulumi.Input<string>;
+}
+
+/**
+ * Cloud Monitoring notification channels and baseline alert policies
+ * for the cluster, its addons, the ingress load balancer, and Cloud
+ * NAT.
+ */
+export class ClusterMonitoring extends pulumi.ComponentResource {
+	readonly notificationChannels: gcp.monitoring.NotificationChannel[];
+	/** Alert policies keyed by a short name */
+	readonly alertPolicies: Record<string, gcp.monitoring.AlertPolicy> = {};
+
+	constructor(
+		name: string,
+		args: ClusterMonitoringArgs,
+		opts?: pulumi.ComponentResourceOptions,
+	) {
+		super("iac-gke:index:ClusterMonitoring", name, {}, opts);
+
+		const monitoringService = new gcp.projects.Service(
+			prefixName(args, "monitoring-service"),
+			{
+				disableOnDestroy: args.existingProject ? false : undefined,
+				project: args.project,
+				service: "monitoring.googleapis.com",
+			},
+			childOptions(this),
+		);
+		const monitoringOpts = childOptions(this, {
+			dependsOn: [monitoringService],
+		});
+
+		this.notificationChannels = args.notificationChannels.map(
+			ch =>
+				new gcp.monitoring.NotificationChannel(
+					prefixName(
+						args,
+						`${ch.name
+							.toLowerCase()
+							.replace(/[^a-z0-9]+/g, "-")}-channel`,
+					),
+					ch.email
+						? {
+								displayName: ch.name,
+								labels: { email_address: ch.email },
+								project: args.project,
+								type: "email",
+								userLabels: args.labels,
+						  }
+						: {
+								displayName: ch.name,
+								labels: { url: ch.webhookUrl as string },
+								project: args.project,
+								type: "webhook_tokenauth",
+								userLabels: args.labels,
+						  },
+					monitoringOpts,
+				),
+		);
+
+		if (!args.alertPolicies) {
+			this.registerOutputs({});
+			return;
+		}
+
+		const channels = this.notificationChannels.map(ch => ch.name);
+		const alertPolicy = (
+			key: string,
+			displayName: string,
+			documentation: string,
+			conditions: gcp.types.input.monitoring.AlertPolicyCondition[],
+		): void => {
+			this.alertPolicies[key] = new gcp.monitoring.AlertPolicy(
+				prefixName(args, `${key}-alert`),
+				{
+					combiner: "OR",
+					conditions,
+					displayName,
+					documentation: {
+						content: documentation,
+						mimeType: "text/markdown",
+					},
+					notificationChannels: channels,
+					project: args.project,
+					userLabels: args.labels,
+				},
+				monitoringOpts,
+			);
+		};
+		const nodeFilter = pulumi.interpolate`resource.type = "k8s_node" AND resource.label.cluster_name = "${args.clusterName}"`;
+
+		alertPolicy(
+			"node-pool-max",
+			"GKE node pool at maximum size",
+			"A node pool has scaled to its maximum number of nodes, so pending pods may not be scheduled. Raise the node pool maxNodeCount or reduce the workload.",
+			args.nodePools.map(np => ({
+				conditionThreshold: {
+					aggregations: [
+						{
+							alignmentPeriod: "300s",
+							crossSeriesReducer: "REDUCE_COUNT",
+							perSeriesAligner: "ALIGN_MEAN",
+						},
+					],
+					comparison: "COMPARISON_GT",
+					duration: "900s",
+					filter: pulumi.interpolate`metric.type = "kubernetes.io/node/cpu/allocatable_cores" AND ${nodeFilter} AND metadata.user_labels."cloud.google.com/gke-nodepool" = "${np.name}"`,
+					thresholdValue: np.maxNodes - 0.5,
+				},
+				displayName: pulumi.interpolate`Node pool ${np.name} at ${np.maxNodes} nodes`,
+			})),
+		);
+
+		alertPolicy(
+			"node-not-ready",
+			"GKE node not ready",
+			"A node has stopped reporting metrics for ten minutes. Unless the autoscaler removed it, its kubelet is likely NotReady. Check the node with kubectl describe node.",
+			[
+				{
+					conditionAbsent: {
+						aggregations: [
+							{
+								alignmentPeriod: "300s",
+								crossSeriesReducer: "REDUCE_SUM",
+								groupByFields: ["resource.label.node_name"],
+								perSeriesAligner: "ALIGN_RATE",
+							},
+						],
+						duration: "600s",
+						filter: pulumi.interpolate`metric.type = "kubernetes.io/node/cpu/core_usage_time" AND ${nodeFilter}`,
+					},
+					displayName: "Node stopped reporting",
+				},
+			],
+		);
+
+		alertPolicy(
+			"addon-crashloop",
+			"GKE addon pods crashlooping",
+			`Containers in the ${args.namespaces.join(
+				", ",
+			)} namespaces are restarting repeatedly. Check their logs with kubectl logs --previous.`,
+			[
+				{
+					conditionThreshold: {
+						aggregations: [
+							{
+								alignmentPeriod: "600s",
+								crossSeriesReducer: "REDUCE_SUM",
+								groupByFields: [
+									"resource.label.namespace_name",
+									"resource.label.pod_name",
+								],
+								perSeriesAligner: "ALIGN_DELTA",
+							},
+						],
+						comparison: "COMPARISON_GT",
+						duration: "0s",
+						filter: pulumi.interpolate`metric.type = "kubernetes.io/container/restart_count" AND resource.type = "k8s_container" AND resource.label.cluster_name = "${
+							args.clusterName
+						}" AND resource.label.namespace_name = one_of(${args.namespaces
+							.map(n => JSON.stringify(n))
+							.join(", ")})`,
+						thresholdValue: 3,
+					},
+					displayName:
+						"Container restarted more than 3 times in 10 minutes",
+				},
+			],
+		);
+
+		const ingressCheck = new gcp.monitoring.UptimeCheckConfig(
+			prefixName(args, "ingress-uptime-check"),
+			{
+				displayName: "ingress-nginx load balancer",
+				monitoredResource: {
+					labels: {
+						host: args.ingressIpAddress,
+						project_id: args.project,
+					},
+					type: "uptime_url",
+				},
+				period: "300s",
+				project: args.project,
+				tcpCheck: { port: 443 },
+				timeout: "10s",
+			},
+			monitoringOpts,
+		);
+		alertPolicy(
+			"ingress-uptime",
+			"Ingress load balancer unreachable",
+			"The ingress-nginx load balancer is not accepting connections on port 443. Check the ingress-nginx controller pods and service.",
+			[
+				{
+					conditionThreshold: {
+						aggregations: [
+							{
+								alignmentPeriod: "1200s",
+								crossSeriesReducer: "REDUCE_COUNT_FALSE",
+								perSeriesAligner: "ALIGN_NEXT_OLDER",
+							},
+						],
+						comparison: "COMPARISON_GT",
+						duration: "600s",
+						filter: pulumi.interpolate`metric.type = "monitoring.googleapis.com/uptime_check/check_passed" AND resource.type = "uptime_url" AND metric.label.check_id = "${ingressCheck.uptimeCheckId}"`,
+						thresholdValue: 1,
+					},
+					displayName: "Uptime check failing",
+				},
+			],
+		);
+
+		if (args.certificateHosts.length > 0) {
+			const certificateChecks = args.certificateHosts.map(
+				host =>
+					new gcp.monitoring.UptimeCheckConfig(
+						prefixName(
+							args,
+							`${host.replace(/\./g, "-")}-certificate-check`,
+						),
+						{
+							displayName: `${host} certificate`,
+							httpCheck: {
+								path: "/",
+								port: 443,
+								useSsl: true,
+								validateSsl: true,
+							},
+							monitoredResource: {
+								labels: { host, project_id: args.project },
+								type: "uptime_url",
+							},
+							period: "3600s",
+							project: args.project,
+							timeout: "10s",
+						},
+						monitoringOpts,
+					),
+			);
+			alertPolicy(
+				"certificate-expiry",
+				"TLS certificate expiring",
+				`A TLS certificate expires in less than ${args.certificateExpiryDays} days, so cert-manager has failed to renew it. Check the Certificate and CertificateRequest resources.`,
+				certificateChecks.map((check, i) => ({
+					conditionThreshold: {
+						aggregations: [
+							{
+								alignmentPeriod: "3600s",
+								perSeriesAligner: "ALIGN_NEXT_OLDER",
+							},
+						],
+						comparison: "COMPARISON_LT",
+						duration: "0s",
+						filter: pulumi.interpolate`metric.type = "monitoring.googleapis.com/uptime_check/time_until_ssl_cert_expires" AND resource.type = "uptime_url" AND metric.label.check_id = "${check.uptimeCheckId}"`,
+						thresholdValue: args.certificateExpiryDays,
+					},
+					displayName: `${args.certificateHosts[i]} certificate expiring`,
+				})),
+			);
+		}
+
+		if (args.natName) {
+			alertPolicy(
+				"nat-port-exhaustion",
+				"Cloud NAT port exhaustion",
+				"Cloud NAT is dropping connections because it has run out of ports. Allocate more NAT IP addresses or increase the minimum ports per VM.",
+				[
+					{
+						conditionThreshold: {
+							aggregations: [
+								{
+									alignmentPeriod: "300s",
+									crossSeriesReducer: "REDUCE_SUM",
+									perSeriesAligner: "ALIGN_RATE",
+								},
+							],
+							comparison: "COMPARISON_GT",
+							duration: "300s",
+							filter: pulumi.interpolate`metric.type = "router.googleapis.com/nat/dropped_sent_packets_count" AND resource.type = "nat_gateway" AND resource.label.gateway_name = "${args.natName}" AND metric.label.reason = "OUT_OF_RESOURCES"`,
+							thresholdValue: 0,
+						},
+						displayName: "Packets dropped for lack of NAT ports",
+					},
+				],
+			);
+		}
+
+		this.registerOutputs({
+			notificationChannels: channels,
+		});
+	}
+}
@@ -0,0 +1,347 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as gcp from "@pulumi/gcp";
+import * as pulumi from "@pulumi/pulumi";
+import { AddressPlan } from "./cidr";
+import { childOptions, ComponentArgs, prefixName } from "./component";
+import { NatConfig } from "./config";
+import { simpleRoleName } from "./iam";
+
+/** Network, subnetwork, and secondary ranges a cluster attaches to. */
+export interface ClusterNetwork {
+	network: { id: pulumi.Input<string>; selfLink: pulumi.Input<string> };
+	/** Name of the subnetwork secondary range for pods */
+	podRangeName: string;
+	/** Name of the subnetwork secondary range for services */
+	serviceRangeName: string;
+	subnetwork: { selfLink: pulumi.Input<string> };
+}
+
+/** Arguments for [[GkeNetwork]]. */
+export interface GkeNetworkArgs extends ComponentArgs {
+	/** Cluster network address plan */
+	addressPlan: AddressPlan;
+	/** GKE cluster name, used to name the subnetwork and its ranges */
+	clusterName: string;
+	/** Description prefix, e.g., "USER Kubernetes ENV cluster" */
+	description: string;
+	/** Cloud NAT egress addresses, port allocation, logging, and timeouts */
+	nat?: NatConfig;
+	/** Network name suffix, the resulting network is "net-NAME" */
+	networkName: string;
+	/** GCP project ID to create the network in */
+	project: pulumi.Input<string>;
+	/** GCP region of the subnetwork, router, and NAT */
+	region: string;
+}
+
+/**
+ * VPC network for a private GKE cluster: a network, a subnetwork
+ * with secondary ranges for services and pods, and a Cloud NAT so
+ * private nodes can reach the internet, optionally from reserved
+ * static addresses.
+ */
+export class GkeNetwork
+	extends pulumi.ComponentResource
+	implements ClusterNetwork {
+	readonly network: gcp.compute.Network;
+	readonly subnetwork: gcp.compute.Subnetwork;
+	readonly router: gcp.compute.Router;
+	readonly nat: gcp.compute.RouterNat;
+	/** Reserved static egress addresses of the NAT, if any */
+	readonly natAddresses: gcp.compute.Address[] = [];
+	/** Name of the subnetwork secondary range for pods */
+	readonly podRangeName: string;
+	/** Name of the subnetwork secondary range for services */
+	readonly serviceRangeName: string;
+
+	constructor(
+		name: string,
+		args: GkeNetworkArgs,
+		opts?: pulumi.ComponentResourceOptions,
+	) {
+		super("iac-gke:index:GkeNetwork", name, {}, opts);
+
+		this.network = new gcp.compute.Network(
+			prefixName(args, `net-${args.networkName}`),
+			{
+				autoCreateSubnetworks: false,
+				deleteDefaultRoutesOnCreate: false,
+				description: `${args.description} network`,
+				project: args.project,
+				routingMode: "REGIONAL",
+			},
+			childOptions(this),
+		);
+
+		this.podRangeName = `${args.clusterName}-pods`;
+		this.serviceRangeName = `${args.clusterName}-services`;
+		this.subnetwork = new gcp.compute.Subnetwork(
+			prefixName(args, `sub-${args.clusterName}`),
+			{
+				description: `${args.description} subnetwork`,
+				ipCidrRange: args.addressPlan.subnetCidrBlock,
+				network: this.network.selfLink,
+				privateIpGoogleAccess: true,
+				project: args.project,
+				purpose: "PRIVATE",
+				region: args.region,
+				secondaryIpRanges: [
+					{
+						ipCidrRange: args.addressPlan.servicesCidrBlock,
+						rangeName: this.serviceRangeName,
+					},
+					{
+						ipCidrRange: args.addressPlan.podsCidrBlock,
+						rangeName: this.podRangeName,
+					},
+				],
+			},
+			childOptions(this),
+		);
+
+		this.router = new gcp.compute.Router(
+			prefixName(args, "nat-router"),
+			{
+				description: "NAT router for private GKE cluster",
+				network: this.network.selfLink,
+				project: args.project,
+				region: args.region,
+			},
+			childOptions(this),
+		);
+		const nat = args.nat || {};
+		for (let i = 0; i < (nat.addresses || 0); i++) {
+			this.natAddresses.push(
+				new gcp.compute.Address(
+					prefixName(args, `nat-address-${i}`),
+					{
+						addressType: "EXTERNAL",
+						description: `${args.description} NAT egress address`,
+						networkTier: "PREMIUM",
+						project: args.project,
+						region: args.region,
+					},
+					childOptions(this),
+				),
+			);
+		}
+		const timeouts = nat.timeouts || {};
+		this.nat = new gcp.compute.RouterNat(
+			prefixName(args, "nat-config"),
+			{
+				icmpIdleTimeoutSec: timeouts.icmp,
+				logConfig: nat.logging
+					? { enable: true, filter: nat.logging }
+					: undefined,
+				minPortsPerVm: nat.minPortsPerVm,
+				natIpAllocateOption:
+					this.natAddresses.length > 0 ? "MANUAL_ONLY" : "AUTO_ONLY",
+				natIps: this.natAddresses.map(a => a.selfLink),
+				project: args.project,
+				region: args.region,
+				router: this.router.name,
+				sourceSubnetworkIpRangesToNat: "LIST_OF_SUBNETWORKS",
+				subnetworks: [
+					{
+						name: this.subnetwork.selfLink,
+						sourceIpRangesToNats: ["ALL_IP_RANGES"],
+					},
+				],
+				tcpEstablishedIdleTimeoutSec: timeouts.tcpEstablished,
+				tcpTransitoryIdleTimeoutSec: timeouts.tcpTransitory,
+				udpIdleTimeoutSec: timeouts.udp,
+			},
+			childOptions(this),
+		);
+
+		this.registerOutputs({
+			network: this.network.selfLink,
+			subnetwork: this.subnetwork.selfLink,
+		});
+	}
+}
+
+/** Arguments for [[SharedVpcNetwork]]. */
+export interface SharedVpcNetworkArgs extends ComponentArgs {
+	/**
+	 * Cluster network address plan, which must match the subnetwork
+	 * ranges
+	 */
+	addressPlan: AddressPlan;
+	/** IAM member of the Google APIs service agent of the cluster project */
+	cloudServicesAgent: pulumi.Input<string>;
+	/** IAM member of the GKE service agent of the cluster project */
+	gkeServiceAgent: pulumi.Input<string>;
+	/** Shared VPC host project ID */
+	hostProject: string;
+	/** Name of the subnetwork secondary range for pods */
+	podRangeName: string;
+	/** GCP region of the subnetwork */
+	region: string;
+	/** Name of the subnetwork secondary range for services */
+	serviceRangeName: string;
+	/** Subnetwork name */
+	subnetwork: string;
+}
+
+/**
+ * Existing subnetwork of a Shared VPC host project for a private GKE
+ * cluster in a service project, which the GKE and Google APIs service
+ * agents of the service project are allowed to use. The host project
+ * manages the network, its routers, and Cloud NAT.
+ */
+export class SharedVpcNetwork
+	extends pulumi.ComponentResource
+	implements ClusterNetwork {
+	readonly network: {
+		id: pulumi.Output<string>;
+		selfLink: pulumi.Output<string>;
+	};
+	/**
+	 * Subnetwork, available once the service agents are allowed to use
+	 * it
+	 */
+	readonly subnetwork: { selfLink: pulumi.Output<string> };
+	readonly podRangeName: string;
+	readonly serviceRangeName: string;
+
+	constructor(
+		name: string,
+		args: SharedVpcNetworkArgs,
+		opts?: pulumi.ComponentResourceOptions,
+	) {
+		super("iac-gke:index:SharedVpcNetwork", name, {}, opts);
+
+		this.podRangeName = args.podRangeName;
+		this.serviceRangeName = args.serviceRangeName;
+		const plan = args.addressPlan;
+		const subnetwork = pulumi
+			.output(
+				gcp.compute.getSubnetwork(
+					{
+						name: args.subnetwork,
+						project: args.hostProject,
+						region: args.region,
+					},
+					{ parent: this },
+				),
+			)
+			.apply(sub => {
+				const secondaryRange = (rangeName: string) =>
+					(sub.secondaryIpRanges || []).find(
+						r => r.rangeName === rangeName,
+					)?.ipCidrRange;
+				const ranges: Array<[
+					string,
+					string | undefined,
+					string,
+					string,
+				]> = [
+					[
+						"primary range",
+						sub.ipCidrRange,
+						"network.subnetCidrBlock",
+						plan.subnetCidrBlock,
+					],
+					[
+						`secondary range ${args.podRangeName}`,
+						secondaryRange(args.podRangeName),
+						"network.podsCidrBlock",
+						plan.podsCidrBlock,
+					],
+					[
+						`secondary range ${args.serviceRangeName}`,
+						secondaryRange(args.serviceRangeName),
+						"network.servicesCidrBlock",
+						plan.servicesCidrBlock,
+					],
+				];
+				for (const [range, actual, key, block] of ranges) {
+					if (actual !== block) {
+						throw new Error(
+							`The ${range} of the Shared VPC subnetwork ${
+								args.subnetwork
+							} is ${
+								actual || "missing"
+							}, not the ${key} ${block}`,
+						);
+					}
+				}
+				return sub;
+			});
+
+		const networkUser = "roles/compute.networkUser";
+		const hostServiceAgentUser = "roles/container.hostServiceAgentUser";
+		const grants = [
+			...[
+				["cloudservices", args.cloudServicesAgent],
+				["gke", args.gkeServiceAgent],
+			].map(
+				([agent, member]) =>
+					new gcp.compute.SubnetworkIAMMember(
+						prefixName(
+							args,
+							`shared-vpc-${agent}-${simpleRoleName(
+								networkUser,
+							)}-member`,
+						),
+						{
+							member,
+							project: args.hostProject,
+							region: args.region,
+							role: networkUser,
+							subnetwork: args.subnetwork,
+						},
+						childOptions(this),
+					),
+			),
+			new gcp.projects.IAMMember(
+				prefixName(
+					args,
+					`shared-vpc-gke-${simpleRoleName(
+						hostServiceAgentUser,
+					)}-member`,
+				),
+				{
+					member: args.gkeServiceAgent,
+					project: args.hostProject,
+					role: hostServiceAgentUser,
+				},
+				childOptions(this),
+			),
+		];
+
+		const networkSelfLink = subnetwork.network;
+		this.network = {
+			id: networkSelfLink.apply(l =>
+				l.replace(/^https:\/\/www\.googleapis\.com\/compute\/v1\//, ""),
+			),
+			selfLink: networkSelfLink,
+		};
+		this.subnetwork = {
+			selfLink: pulumi
+				.all([subnetwork.selfLink, ...grants.map(g => g.etag)])
+				.apply(([selfLink]) => selfLink),
+		};
+
+		this.registerOutputs({
+			network: this.network.selfLink,
+			subnetwork: this.subnetwork.selfLink,
+		});
+	}
+}
@@ -0,0 +1,228 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as gcp from "@pulumi/gcp";
+import * as pulumi from "@pulumi/pulumi";
+import { childOptions, ComponentArgs, prefixName } from "./component";
+import { simpleRoleName } from "./iam";
+
+/**
+ * Placement of a project a component creates, or the existing project
+ * it uses instead.
+ */
+export interface ProjectPlacementArgs {
+	/** Billing account to attach to a created project */
+	billingAccount?: pulumi.Input<string>;
+	/** Use the existing project instead of creating one */
+	existingProject?: boolean;
+	/** Numeric ID of the folder to create the project in */
+	folderId?: string;
+	/** Numeric ID of the organization to create the project in */
+	orgId?: string;
+}
+
+/** GCP project of a component, created or existing. */
+export interface ComponentProject {
+	/** Project number */
+	number: pulumi.Output<string>;
+	/** Project resource, unless the project exists */
+	project?: gcp.organizations.Project;
+	/** GCP project ID, available once the project exists */
+	projectId: pulumi.Output<string>;
+}
+
+/**
+ * Create the project of a component in its folder or organization,
+ * or look up the existing project.
+ */
+export function componentProject(
+	parent: pulumi.Resource,
+	args: ComponentArgs &
+		ProjectPlacementArgs & {
+			labels: Record<string, string>;
+			name: string;
+			projectId: string;
+		},
+): ComponentProject {
+	if (args.existingProject) {
+		const existing = pulumi.output(
+			gcp.organizations.getProject(
+				{ projectId: args.projectId },
+				{ parent },
+			),
+		);
+		return {
+			number: existing.number,
+			projectId: existing.apply(p => p.projectId || args.projectId),
+		};
+	}
+	const project = new gcp.organizations.Project(
+		prefixName(args, args.projectId),
+		{
+			autoCreateNetwork: false,
+			billingAccount: args.billingAccount,
+			folderId: args.folderId,
+			labels: args.labels,
+			name: args.name,
+			orgId: args.orgId,
+			projectId: args.projectId,
+		},
+		childOptions(parent),
+	);
+	return { number: project.number, project, projectId: project.projectId };
+}
+
+/** Arguments for [[ClusterProject]]. */
+export interface ClusterProjectArgs
+	extends ComponentArgs,
+		ProjectPlacementArgs {
+	/** GKE cluster name, used to name the node service account */
+	clusterName: string;
+	/** Resource labels */
+	labels: Record<string, string>;
+	/** Display name of the node service account */
+	nodeServiceAccountDisplayName: string;
+	/** GCP project ID */
+	projectId: string;
+}
+
+/**
+ * GCP project for the GKE cluster, created or existing, with the
+ * Kubernetes Engine API enabled and a minimally privileged service
+ * account for the nodes.
+ */
+export class ClusterProject extends pulumi.ComponentResource {
+	/** Project resource, unless the project exists */
+	readonly project?: gcp.organizations.Project;
+	/** Project number */
+	readonly projectNumber: pulumi.Output<string>;
+	readonly containerService: gcp.projects.Service;
+	readonly nodeServiceAccount: gcp.serviceAccount.Account;
+	/** GCP project ID, available once the project exists */
+	readonly projectId: pulumi.Output<string>;
+	/**
+	 * IAM member of the GKE service agent, available once the
+	 * Kubernetes Engine API is enabled.
+	 */
+	readonly serviceAgent: pulumi.Output<string>;
+	/**
+	 * IAM member of the Compute Engine service agent, which encrypts
+	 * the node boot disks
+	 */
+	readonly computeServiceAgent: pulumi.Output<string>;
+	/**
+	 * IAM member of the Google APIs service agent, which creates the
+	 * node instance groups
+	 */
+	readonly cloudServicesAgent: pulumi.Output<string>;
+	/** IAM member of the Cloud Storage service agent */
+	readonly storageServiceAgent: pulumi.Output<string>;
+
+	constructor(
+		name: string,
+		args: ClusterProjectArgs,
+		opts?: pulumi.ComponentResourceOptions,
+	) {
+		super("iac-gke:index:ClusterProject", name, {}, opts);
+
+		const project = componentProject(this, {
+			...args,
+			name: "GKE Infrastructure",
+		});
+		this.project = project.project;
+		this.projectId = project.projectId;
+		this.projectNumber = project.number;
+		this.containerService = new gcp.projects.Service(
+			prefixName(args, `${args.projectId}-container-service`),
+			{
+				disableOnDestroy: args.existingProject ? false : undefined,
+				project: this.projectId,
+				service: "container.googleapis.com",
+			},
+			childOptions(this),
+		);
+
+		const nodeServiceAccountName = `${args.clusterName}-node-sa`;
+		this.nodeServiceAccount = new gcp.serviceAccount.Account(
+			prefixName(args, nodeServiceAccountName),
+			{
+				accountId: nodeServiceAccountName,
+				description: "GKE node pool service account",
+				displayName: args.nodeServiceAccountDisplayName,
+				project: this.projectId,
+			},
+			childOptions(this),
+		);
+		const nodeRoles = [
+			"roles/logging.logWriter",
+			"roles/monitoring.metricWriter",
+			"roles/monitoring.viewer",
+		];
+		for (const role of nodeRoles) {
+			new gcp.projects.IAMMember(
+				prefixName(
+					args,
+					`${args.projectId}-${simpleRoleName(role)}-member`,
+				),
+				{
+					member: pulumi.concat(
+						"serviceAccount:",
+						this.nodeServiceAccount.email,
+					),
+					project: this.projectId,
+					role,
+				},
+				childOptions(this),
+			);
+		}
+
+		this.serviceAgent = pulumi
+			.all([this.projectNumber, this.containerService.id])
+			.apply(
+				([n]) =>
+					`serviceAccount:service-${n}@container-engine-robot.iam.gserviceaccount.com`,
+			);
+
+		// the Kubernetes Engine API enables the Compute Engine API
+		this.computeServiceAgent = pulumi
+			.all([this.projectNumber, this.containerService.id])
+			.apply(
+				([n]) =>
+					`serviceAccount:service-${n}@compute-system.iam.gserviceaccount.com`,
+			);
+		this.cloudServicesAgent = this.projectNumber.apply(
+			n => `serviceAccount:${n}@cloudservices.gserviceaccount.com`,
+		);
+		// looking up the Cloud Storage service agent creates it
+		this.storageServiceAgent = this.projectId
+			.apply(project =>
+				gcp.storage.getProjectServiceAccount(
+					{ project },
+					{ parent: this },
+				),
+			)
+			.apply(sa => `serviceAccount:${sa.emailAddress}`);
+
+		this.registerOutputs({
+			cloudServicesAgent: this.cloudServicesAgent,
+			computeServiceAgent: this.computeServiceAgent,
+			nodeServiceAccount: this.nodeServiceAccount.email,
+			projectId: this.projectId,
+			serviceAgent: this.serviceAgent,
+			storageServiceAgent: this.storageServiceAgent,
+		});
+	}
+}
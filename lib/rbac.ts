@@ -0,0 +1,122 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as k8s from "@pulumi/kubernetes";
+import * as pulumi from "@pulumi/pulumi";
+import { GkeCluster } from "./cluster";
+import { childOptions, ComponentArgs, prefixName } from "./component";
+import { RbacBindingConfig, RbacSubjectsConfig } from "./config";
+
+/** Kubernetes RBAC role binding subject. */
+export interface RbacSubject {
+	apiGroup: string;
+	kind: string;
+	name: string;
+}
+
+/**
+ * Return the Kubernetes RBAC subjects: users and GCP service accounts
+ * are Users and Google Groups are Groups, named by their email
+ * address. The subjects are sorted and without duplicates, so
+ * reordering the configuration does not change the role binding.
+ */
+export function rbacSubjects(s: RbacSubjectsConfig): RbacSubject[] {
+	const subjects = [
+		...(s.groups || []).map(name => ({ kind: "Group", name })),
+		...[...(s.users || []), ...(s.serviceAccounts || [])].map(name => ({
+			kind: "User",
+			name,
+		})),
+	];
+	return subjects
+		.filter(
+			(a, i) =>
+				subjects.findIndex(
+					b => b.kind === a.kind && b.name === a.name,
+				) === i,
+		)
+		.sort((a, b) =>
+			a.kind === b.kind
+				? a.name.localeCompare(b.name)
+				: a.kind.localeCompare(b.kind),
+		)
+		.map(a => ({ apiGroup: "rbac.authorization.k8s.io", ...a }));
+}
+
+/** Arguments for [[ClusterRbac]]. */
+export interface ClusterRbacArgs extends ComponentArgs {
+	/** Role bindings to create */
+	bindings: RbacBindingConfig[];
+	/** Cluster to create the role bindings in */
+	cluster: GkeCluster;
+}
+
+/**
+ * Kubernetes role bindings granting users, Google Groups, and GCP
+ * service accounts access to the cluster.
+ */
+export class ClusterRbac extends pulumi.ComponentResource {
+	/** Role bindings, keyed by "NAMESPACE/NAME" or "NAME" */
+	readonly bindings: Record<
+		string,
+		k8s.rbac.v1.ClusterRoleBinding | k8s.rbac.v1.RoleBinding
+	> = {};
+
+	constructor(
+		name: string,
+		args: ClusterRbacArgs,
+		opts?: pulumi.ComponentResourceOptions,
+	) {
+		super("iac-gke:index:ClusterRbac", name, {}, opts);
+
+		const bindingOpts = childOptions(this, {
+			dependsOn: [args.cluster.adminBinding],
+			provider: args.cluster.provider,
+		});
+		for (const b of args.bindings) {
+			const roleRef = {
+				apiGroup: "rbac.authorization.k8s.io",
+				kind: b.roleKind || "ClusterRole",
+				name: b.role,
+			};
+			const subjects = rbacSubjects(b);
+			if (b.namespace) {
+				const key = `${b.namespace}/${b.name}`;
+				this.bindings[key] = new k8s.rbac.v1.RoleBinding(
+					prefixName(args, key),
+					{
+						metadata: { name: b.name, namespace: b.namespace },
+						roleRef,
+						subjects,
+					},
+					bindingOpts,
+				);
+			} else {
+				this.bindings[b.name] = new k8s.rbac.v1.ClusterRoleBinding(
+					prefixName(args, b.name),
+					{
+						metadata: { name: b.name },
+						roleRef,
+						subjects,
+					},
+					bindingOpts,
+				);
+			}
+		}
+
+		this.registerOutputs({});
+	}
+}
@@ -0,0 +1,141 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/*
+ * Resolution of the values that may depend on who runs the program.
+ * Each value is taken from the stack configuration, then from an
+ * environment variable, and only then looked up on the local machine.
+ * In strict mode, e.g., in CI, a missing value is an error rather
+ * than a lookup, so every run declares the same resources.
+ */
+
+import { CidrBlockConfig } from "./config";
+import { checkCidr, ConfigProblems, ConfigValidationError } from "./validate";
+
+/** Environment variables consulted after the stack configuration. */
+export const environmentVariables = {
+	/**
+	 * Comma-separated master authorized networks, each "CIDR" or
+	 * "NAME=CIDR", merged with the configured networks
+	 */
+	authorizedNetworks: "IAC_GKE_AUTHORIZED_NETWORKS",
+	/** "true" to enable strict mode */
+	strict: "IAC_GKE_STRICT",
+	/** User deploying the cluster, see the "user" configuration value */
+	user: "IAC_GKE_USER",
+};
+
+/** How to resolve a value, see [[resolveValue]]. */
+export interface Resolution<T> {
+	/** Configuration key of the value, used in error messages */
+	key: string;
+	/** Value from the stack configuration */
+	config: T | undefined;
+	/** Name of the environment variable providing the value */
+	env: string;
+	/** Parse the environment variable value */
+	parse: (value: string) => T;
+	/** Look up the value on the local machine */
+	lookup: () => T;
+	/** Fail rather than look up the value */
+	strict: boolean;
+	/**
+	 * Record a value missing in strict mode in `problems`, to report it
+	 * with the other configuration problems, and return `missing`
+	 * instead of throwing
+	 */
+	collect?: { problems: ConfigProblems; missing: T };
+}
+
+/**
+ * Return the configured value, else the parsed environment variable
+ * value, else the looked up value. In strict mode, throw a
+ * ConfigValidationError instead of looking up the value, unless the
+ * problem is collected.
+ */
+export function resolveValue<T>(r: Resolution<T>): T {
+	if (r.config !== undefined) {
+		return r.config;
+	}
+	const value = process.env[r.env];
+	if (value) {
+		return r.parse(value);
+	}
+	if (r.strict) {
+		const problem = {
+			path: r.key,
+			message: `required in strict mode, set it in the stack configuration or the ${r.env} environment variable`,
+		};
+		if (r.collect) {
+			r.collect.problems.add(problem.path, problem.message);
+			return r.collect.missing;
+		}
+		throw new ConfigValidationError([problem]);
+	}
+	return r.lookup();
+}
+
+/** Return true if strict mode is set in the environment. */
+export function strictEnvironment(): boolean {
+	return /^(1|true|yes)$/i.test(
+		process.env[environmentVariables.strict] || "",
+	);
+}
+
+/**
+ * Parse comma-separated "CIDR" or "NAME=CIDR" master authorized
+ * networks from the environment variable, throwing a
+ * ConfigValidationError if any CIDR block is not valid.
+ */
+export function parseCidrBlocks(value: string): CidrBlockConfig[] {
+	const problems = new ConfigProblems();
+	const blocks = value
+		.split(",")
+		.map(b => b.trim())
+		.filter(b => b)
+		.map((b, i) => {
+			const [displayName, cidrBlock] = b.includes("=")
+				? b.split("=", 2).map(s => s.trim())
+				: [undefined, b];
+			checkCidr(
+				problems,
+				`${environmentVariables.authorizedNetworks}[${i}]`,
+				cidrBlock,
+			);
+			return displayName ? { cidrBlock, displayName } : { cidrBlock };
+		});
+	if (problems.problems.length > 0) {
+		throw new ConfigValidationError(problems.problems);
+	}
+	return blocks;
+}
+
+/**
+ * Merge lists of CIDR blocks, keeping the first entry for each CIDR
+ * block in order. The result does not depend on who runs the program
+ * as long as the inputs do not.
+ */
+export function mergeCidrBlocks(
+	...lists: CidrBlockConfig[][]
+): CidrBlockConfig[] {
+	const merged: CidrBlockConfig[] = [];
+	for (const block of ([] as CidrBlockConfig[]).concat(...lists)) {
+		if (!merged.some(m => m.cidrBlock === block.cidrBlock)) {
+			merged.push(block);
+		}
+	}
+	return merged;
+}
@@ -0,0 +1,207 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as k8s from "@pulumi/kubernetes";
+import * as pulumi from "@pulumi/pulumi";
+import { GkeCluster } from "./cluster";
+import { childOptions, ComponentArgs, prefixName } from "./component";
+import { TenantConfig } from "./config";
+import { privateGoogleAccessCidrBlock } from "./firewall";
+import { rbacSubjects } from "./rbac";
+
+/** Resource quota of a tenant namespace, unless configured otherwise. */
+export const defaultTenantQuota: Record<string, string> = {
+	"limits.cpu": "8",
+	"limits.memory": "16Gi",
+	pods: "50",
+	"requests.cpu": "4",
+	"requests.memory": "8Gi",
+	"services.loadbalancers": "0",
+};
+
+/**
+ * Egress of tenant workloads using workload identity: the GKE metadata
+ * server, which pods reach at the metadata server address, and Google
+ * APIs through Private Google Access.
+ */
+const workloadIdentityEgress = [
+	{
+		ports: [{ port: 988, protocol: "TCP" }],
+		to: [{ ipBlock: { cidr: "169.254.169.252/32" } }],
+	},
+	{
+		ports: [{ port: 80, protocol: "TCP" }],
+		to: [{ ipBlock: { cidr: "169.254.169.254/32" } }],
+	},
+	{
+		ports: [{ port: 443, protocol: "TCP" }],
+		to: [{ ipBlock: { cidr: privateGoogleAccessCidrBlock } }],
+	},
+];
+
+/** Arguments for [[Tenant]]. */
+export interface TenantArgs extends ComponentArgs {
+	/** Cluster to create the namespace in */
+	cluster: GkeCluster;
+	/** Tenant configuration */
+	tenant: TenantConfig;
+	/**
+	 * Email of the GCP service account of the tenant workload identity,
+	 * required if the tenant has a workload identity
+	 */
+	workloadIdentityServiceAccount?: pulumi.Input<string>;
+}
+
+/**
+ * Application team namespace with a resource quota, default container
+ * resources, a default-deny network policy allowing ingress from
+ * ingress-nginx and DNS lookups, a role binding for the team's Google
+ * Group, and optionally a workload identity service account, with
+ * egress to the GKE metadata server and Google APIs.
+ */
+export class Tenant extends pulumi.ComponentResource {
+	readonly namespace: k8s.core.v1.Namespace;
+
+	constructor(
+		name: string,
+		args: TenantArgs,
+		opts?: pulumi.ComponentResourceOptions,
+	) {
+		super("iac-gke:index:Tenant", name, {}, opts);
+
+		const t = args.tenant;
+		const k8sOpts = childOptions(this, {
+			dependsOn: [args.cluster.adminBinding],
+			provider: args.cluster.provider,
+		});
+		this.namespace = new k8s.core.v1.Namespace(
+			prefixName(args, t.name),
+			{ metadata: { labels: { tenant: t.name }, name: t.name } },
+			k8sOpts,
+		);
+		const nsOpts = childOptions(this, {
+			dependsOn: [this.namespace],
+			provider: args.cluster.provider,
+		});
+		const metadata = (n: string) => ({ name: n, namespace: t.name });
+
+		new k8s.core.v1.ResourceQuota(
+			prefixName(args, `${t.name}/tenant-quota`),
+			{
+				metadata: metadata("tenant-quota"),
+				spec: { hard: { ...defaultTenantQuota, ...t.quota } },
+			},
+			nsOpts,
+		);
+
+		const limits = t.limits || {};
+		new k8s.core.v1.LimitRange(
+			prefixName(args, `${t.name}/tenant-limits`),
+			{
+				metadata: metadata("tenant-limits"),
+				spec: {
+					limits: [
+						{
+							default: {
+								cpu: limits.cpu || "500m",
+								memory: limits.memory || "512Mi",
+							},
+							defaultRequest: {
+								cpu: limits.requestCpu || "100m",
+								memory: limits.requestMemory || "128Mi",
+							},
+							type: "Container",
+						},
+					],
+				},
+			},
+			nsOpts,
+		);
+
+		new k8s.networking.v1.NetworkPolicy(
+			prefixName(args, `${t.name}/default-deny`),
+			{
+				metadata: metadata("default-deny"),
+				spec: {
+					egress: [
+						{
+							ports: [
+								{ port: 53, protocol: "TCP" },
+								{ port: 53, protocol: "UDP" },
+							],
+						},
+						...(t.workloadIdentity ? workloadIdentityEgress : []),
+					],
+					ingress: [
+						{
+							from: [
+								{
+									namespaceSelector: {
+										matchLabels: {
+											"app.kubernetes.io/name":
+												"ingress-nginx",
+										},
+									},
+								},
+							],
+						},
+					],
+					podSelector: {},
+					policyTypes: ["Egress", "Ingress"],
+				},
+			},
+			nsOpts,
+		);
+
+		new k8s.rbac.v1.RoleBinding(
+			prefixName(args, `${t.name}/tenant-team`),
+			{
+				metadata: metadata("tenant-team"),
+				roleRef: {
+					apiGroup: "rbac.authorization.k8s.io",
+					kind: "ClusterRole",
+					name: t.role || "edit",
+				},
+				subjects: rbacSubjects({ groups: [t.group] }),
+			},
+			nsOpts,
+		);
+
+		if (t.workloadIdentity) {
+			if (!args.workloadIdentityServiceAccount) {
+				throw new Error(
+					`No workload identity GCP service account for tenant ${t.name}`,
+				);
+			}
+			const serviceAccount = t.workloadIdentity.serviceAccount || t.name;
+			new k8s.core.v1.ServiceAccount(
+				prefixName(args, `${t.name}/${serviceAccount}`),
+				{
+					metadata: {
+						...metadata(serviceAccount),
+						annotations: {
+							"iam.gke.io/gcp-service-account":
+								args.workloadIdentityServiceAccount,
+						},
+					},
+				},
+				nsOpts,
+			);
+		}
+
+		this.registerOutputs({ namespace: this.namespace.metadata.name });
+	}
+}
@@ -0,0 +1,1643 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+	AddressPlan,
+	cidrSize,
+	cidrsOverlap,
+	formatCidr,
+	isNetworkAddress,
+	networkOf,
+	parseCidr,
+	podAddressesPerNode,
+	resolveAddressPlan,
+} from "./cidr";
+import {
+	AddonsConfig,
+	NodePoolConfig,
+	RbacSubjectsConfig,
+	StackConfig,
+	WorkloadIdentityConfig,
+} from "./config";
+import { workloadIdentityBindingName } from "./iam";
+import {
+	Addon,
+	defaultManifestDirectory,
+	readVersionManifest,
+	vendoredManifest,
+	VersionManifest,
+} from "./manifests";
+
+/** Problem found in the stack configuration. */
+export interface ConfigProblem {
+	/** Configuration key path, e.g., "gke.nodePools[0].minNodeCount" */
+	path: string;
+	/** Description of the problem */
+	message: string;
+}
+
+/** Error thrown when the stack configuration is not valid. */
+export class ConfigValidationError extends Error {
+	constructor(public readonly problems: ConfigProblem[]) {
+		super(
+			[
+				`Stack configuration has ${problems.length} problem${
+					problems.length === 1 ? "" : "s"
+				}:`,
+				...problems.map(p => `  ${p.path}: ${p.message}`),
+			].join("\n"),
+		);
+		this.name = "ConfigValidationError";
+	}
+}
+
+/**
+ * Collects configuration problems so all of them can be reported at
+ * once.
+ */
+export class ConfigProblems {
+	readonly problems: ConfigProblem[] = [];
+
+	/** Record a problem with the configuration value at `path`. */
+	add(path: string, message: string): void {
+		this.problems.push({ path, message });
+	}
+}
+
+/** GKE release channels. */
+const channels = ["RAPID", "REGULAR", "STABLE", "UNSPECIFIED"];
+/** Node boot disk types. */
+const diskTypes = ["pd-balanced", "pd-ssd", "pd-standard"];
+/** Kubernetes node taint effects as named by the GKE API. */
+const taintEffects = ["NO_EXECUTE", "NO_SCHEDULE", "PREFER_NO_SCHEDULE"];
+/** Email address, loosely. */
+const emailPattern = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+/** GCP project ID. */
+const projectIdPattern = /^[a-z][-a-z0-9]{4,28}[a-z0-9]$/;
+/** Compute Engine resource name, like a subnetwork or range name. */
+const computeNamePattern = /^[a-z]([-a-z0-9]{0,61}[a-z0-9])?$/;
+/** Numeric ID of a folder or organization. */
+const numericIdPattern = /^[0-9]+$/;
+/** Kubernetes object name, a DNS label. */
+const kubernetesNamePattern = /^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/;
+/** Cloud NAT log filters. */
+const natLogFilters = ["ALL", "ERRORS_ONLY", "TRANSLATIONS_ONLY"];
+/** Ports of a Cloud NAT address available to nodes. */
+const natPortsPerAddress = 64512;
+/** Cloud KMS key protection levels. */
+const kmsProtectionLevels = ["HSM", "SOFTWARE"];
+/** Cloud KMS location, a region, multi-region, or "global". */
+const kmsLocationPattern = /^[a-z]+(-[a-z]+[0-9]+)?[0-9]*$/;
+const autoscalingProfiles = ["BALANCED", "OPTIMIZE_UTILIZATION"];
+/** Resource types of node auto-provisioning limits. */
+const resourceLimitTypePattern = /^(cpu|memory|nvidia-[a-z0-9]+(-[a-z0-9]+)*)$/;
+/** Priority of the egress lockdown rule denying all egress. */
+export const egressDenyPriority = 65534;
+/** Firewall rule protocols. */
+const firewallProtocols = [
+	"ah",
+	"all",
+	"esp",
+	"icmp",
+	"ipip",
+	"sctp",
+	"tcp",
+	"udp",
+];
+/** Names of the firewall rules this program creates. */
+const reservedFirewallNames = [
+	"egress-allow-cluster",
+	"egress-allow-google-apis",
+	"egress-allow-list",
+	"egress-deny-all",
+	"iap-to-bastion",
+	"internal-ingress-nginx",
+	"master-to-ingress-nginx",
+];
+
+/**
+ * Check `value` is an integer greater than or equal to `min`,
+ * recording a problem and returning false if it is not.
+ */
+export function checkInteger(
+	problems: ConfigProblems,
+	path: string,
+	value: number | undefined,
+	min: number,
+	max?: number,
+): boolean {
+	if (value === undefined) {
+		return true;
+	}
+	if (typeof value !== "number" || !Number.isInteger(value)) {
+		problems.add(path, `must be an integer, got ${JSON.stringify(value)}`);
+		return false;
+	}
+	if (value < min || (max !== undefined && value > max)) {
+		problems.add(
+			path,
+			max === undefined
+				? `must be at least ${min}, got ${value}`
+				: `must be between ${min} and ${max}, got ${value}`,
+		);
+		return false;
+	}
+	return true;
+}
+
+/**
+ * Check `value` is a valid IPv4 CIDR block without host bits set,
+ * recording a problem and returning false if it is not.
+ */
+export function checkCidr(
+	problems: ConfigProblems,
+	path: string,
+	value: string,
+): boolean {
+	const cidr = typeof value === "string" ? parseCidr(value) : undefined;
+	if (!cidr) {
+		problems.add(
+			path,
+			`${JSON.stringify(
+				value,
+			)} is not an IPv4 CIDR block like "10.0.0.0/22"`,
+		);
+		return false;
+	}
+	if (!isNetworkAddress(cidr)) {
+		problems.add(
+			path,
+			`${value} has host bits set, did you mean ${formatCidr(
+				networkOf(cidr),
+			)}?`,
+		);
+		return false;
+	}
+	return true;
+}
+
+/** Check `value` is a valid GCP label value. */
+function checkLabelValue(
+	problems: ConfigProblems,
+	path: string,
+	value: string,
+): void {
+	if (!/^[a-z0-9_-]{0,63}$/.test(value)) {
+		problems.add(
+			path,
+			`${JSON.stringify(
+				value,
+			)} is not a valid GCP label value, use at most 63 lowercase letters, digits, "_", and "-"`,
+		);
+	}
+}
+
+/**
+ * Return the number of zones the nodes of a node pool are created in.
+ * Regional clusters use three zones of the region unless zones are
+ * provided. Zonal clusters use their zone and any additional zones.
+ */
+export function nodePoolZoneCount(
+	region: string,
+	location: string,
+	zones: string[] | undefined,
+): number {
+	if (!zones || zones.length < 1) {
+		return location === region ? 3 : 1;
+	}
+	return location === region
+		? zones.length
+		: new Set([location, ...zones]).size;
+}
+
+/** Check `zone` is a zone in `region`. */
+function checkZone(
+	problems: ConfigProblems,
+	path: string,
+	zone: string,
+	region: string,
+): void {
+	if (!new RegExp(`^${region}-[a-z]$`).test(zone)) {
+		problems.add(path, `zone ${zone} is not in region ${region}`);
+	}
+}
+
+/** Maximum number of nodes of a node pool, in all its zones. */
+function nodePoolMaxNodes(c: StackConfig, np: NodePoolConfig): number {
+	const location = c.gke.location ?? c.region;
+	return (
+		(np.maxNodeCount ?? c.gke.maxNodeCount ?? 3) *
+		nodePoolZoneCount(c.region, location, np.zones || c.gke.zones)
+	);
+}
+
+/**
+ * Check the network address plan: every range is a valid CIDR block,
+ * the ranges do not overlap each other or the master authorized
+ * networks, and the node and pod ranges can hold the maximum number of
+ * nodes of all node pools.
+ */
+function checkAddressPlan(problems: ConfigProblems, c: StackConfig): void {
+	const network = c.network;
+	if (network.baseCidrBlock !== undefined) {
+		if (
+			checkCidr(problems, "network.baseCidrBlock", network.baseCidrBlock)
+		) {
+			checkInteger(
+				problems,
+				"network.baseCidrBlock",
+				parseCidr(network.baseCidrBlock)?.prefix,
+				8,
+				18,
+			);
+		}
+	}
+	const plan = resolveAddressPlan(network);
+	const keys: Array<keyof AddressPlan> = [
+		"subnetCidrBlock",
+		"servicesCidrBlock",
+		"podsCidrBlock",
+		"masterIpv4CidrBlock",
+	];
+	const rangePath = (key: keyof AddressPlan): string =>
+		network[key] === undefined && network.baseCidrBlock !== undefined
+			? "network.baseCidrBlock"
+			: `network.${key}`;
+	let valid = true;
+	for (const key of keys) {
+		if (network[key] !== undefined) {
+			valid = checkCidr(problems, rangePath(key), plan[key]) && valid;
+		}
+	}
+	if (!valid) {
+		return;
+	}
+	const ranges = keys.map(k => ({ key: k, cidr: parseCidr(plan[k])! }));
+	if (ranges[3].cidr.prefix !== 28) {
+		problems.add(
+			rangePath("masterIpv4CidrBlock"),
+			`control plane range must be a /28, got ${plan.masterIpv4CidrBlock}`,
+		);
+	}
+	ranges.forEach((r, i) =>
+		ranges.slice(0, i).forEach(o => {
+			if (cidrsOverlap(r.cidr, o.cidr)) {
+				const configured =
+					network[r.key] !== undefined || network[o.key] === undefined
+						? r.key
+						: o.key;
+				problems.add(
+					rangePath(configured),
+					`${r.key} ${plan[r.key]} overlaps ${o.key} ${plan[o.key]}`,
+				);
+			}
+		}),
+	);
+	(c.gke.masterAuthorizedNetworkCidrBlocks || []).forEach((b, i) => {
+		const cidr = parseCidr(b.cidrBlock);
+		if (!cidr) {
+			return;
+		}
+		for (const r of ranges) {
+			if (cidrsOverlap(cidr, r.cidr)) {
+				problems.add(
+					`gke.masterAuthorizedNetworkCidrBlocks[${i}].cidrBlock`,
+					`${b.cidrBlock} overlaps ${r.key} ${plan[r.key]}`,
+				);
+			}
+		}
+	});
+
+	let maxNodes = 0;
+	let maxPodAddresses = 0;
+	for (const np of c.gke.nodePools || [{ name: "wi-pool" }]) {
+		const nodes = nodePoolMaxNodes(c, np);
+		maxNodes += nodes;
+		maxPodAddresses += nodes * podAddressesPerNode(np.maxPodsPerNode ?? 64);
+	}
+	if (!Number.isFinite(maxPodAddresses)) {
+		return;
+	}
+	// GCP reserves four addresses in every subnetwork primary range
+	const nodeAddresses = cidrSize(ranges[0].cidr.prefix) - 4;
+	if (nodeAddresses < maxNodes) {
+		problems.add(
+			rangePath("subnetCidrBlock"),
+			`${plan.subnetCidrBlock} has ${nodeAddresses} node addresses but the node pools can scale to ${maxNodes} nodes`,
+		);
+	}
+	const podAddresses = cidrSize(ranges[2].cidr.prefix);
+	if (podAddresses < maxPodAddresses) {
+		problems.add(
+			rangePath("podsCidrBlock"),
+			`${plan.podsCidrBlock} has ${podAddresses} pod addresses but the node pools need ${maxPodAddresses}, each node reserves twice its maxPodsPerNode rounded up to a power of two`,
+		);
+	}
+}
+
+/**
+ * Check a workload identity project is "cluster", "dns", "kms", or a
+ * GCP project ID.
+ */
+function checkWorkloadProject(
+	problems: ConfigProblems,
+	path: string,
+	project: string | undefined,
+): void {
+	if (
+		project !== undefined &&
+		!["cluster", "dns", "kms"].includes(project) &&
+		!projectIdPattern.test(project)
+	) {
+		problems.add(
+			path,
+			`must be "cluster", "dns", "kms", or a GCP project ID, got ${JSON.stringify(
+				project,
+			)}`,
+		);
+	}
+}
+
+/** Check an IAM role is a predefined or custom role. */
+function checkRole(problems: ConfigProblems, path: string, role: string): void {
+	if (
+		typeof role !== "string" ||
+		!/^(roles|projects\/[^/]+\/roles|organizations\/\d+\/roles)\/[A-Za-z0-9_.]+$/.test(
+			role,
+		)
+	) {
+		problems.add(
+			path,
+			`${JSON.stringify(role)} is not an IAM role like "roles/dns.admin"`,
+		);
+	}
+}
+
+/** Check the workload identity is complete. */
+function checkWorkloadIdentity(
+	problems: ConfigProblems,
+	path: string,
+	wi: WorkloadIdentityConfig,
+): void {
+	for (const key of ["namespace", "serviceAccount"] as const) {
+		if (!wi[key] || !/^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/.test(wi[key])) {
+			problems.add(
+				`${path}.${key}`,
+				`${JSON.stringify(
+					wi[key],
+				)} is not a valid Kubernetes name, use lowercase letters, digits, and "-"`,
+			);
+		}
+	}
+	checkWorkloadProject(problems, `${path}.project`, wi.project);
+	const roles = wi.roles || [];
+	const bindings = wi.bindings || [];
+	if (!Array.isArray(roles) || !Array.isArray(bindings)) {
+		problems.add(path, "roles and bindings must be lists");
+		return;
+	}
+	if (roles.length < 1 && bindings.length < 1) {
+		problems.add(
+			`${path}.roles`,
+			"must list at least one IAM role, or provide bindings",
+		);
+	}
+	roles.forEach((r, j) => checkRole(problems, `${path}.roles[${j}]`, r));
+	const seen: string[] = [];
+	bindings.forEach((b, j) => {
+		const bPath = `${path}.bindings[${j}]`;
+		checkRole(problems, `${bPath}.role`, b.role);
+		checkWorkloadProject(problems, `${bPath}.project`, b.project);
+		const r = b.resource;
+		if (r !== undefined) {
+			if (!["bucket", "cryptoKey", "secret", "topic"].includes(r.type)) {
+				problems.add(
+					`${bPath}.resource.type`,
+					`must be "bucket", "cryptoKey", "secret", or "topic", got ${JSON.stringify(
+						r.type,
+					)}`,
+				);
+			}
+			if (!r.name) {
+				problems.add(`${bPath}.resource.name`, "required");
+			} else if (
+				r.type === "cryptoKey" &&
+				!/^projects\/[^/]+\/locations\/[^/]+\/keyRings\/[^/]+\/cryptoKeys\/[^/]+$/.test(
+					r.name,
+				)
+			) {
+				problems.add(
+					`${bPath}.resource.name`,
+					`${JSON.stringify(
+						r.name,
+					)} is not a crypto key ID like "projects/P/locations/L/keyRings/R/cryptoKeys/K"`,
+				);
+			}
+		}
+		const c = b.condition;
+		if (c !== undefined) {
+			for (const key of ["title", "expression"] as const) {
+				if (!c[key]) {
+					problems.add(`${bPath}.condition.${key}`, "required");
+				}
+			}
+		}
+		// bindings with the same name have the same resource names
+		const key = workloadIdentityBindingName({
+			...b,
+			condition: c && { ...c, title: c.title || "" },
+			role: b.role || "",
+		});
+		if (seen.includes(key)) {
+			problems.add(
+				bPath,
+				"duplicate binding, another binding has the same project or resource, role, and condition title, ignoring case and punctuation",
+			);
+		}
+		seen.push(key);
+	});
+}
+
+/** Check the workload identities are complete and unique. */
+function checkWorkloadIdentities(
+	problems: ConfigProblems,
+	c: StackConfig,
+): void {
+	const seen: string[] = [];
+	c.workloadIdentities.forEach((wi, i) => {
+		const path = `workloadIdentities[${i}]`;
+		const key = `${wi.namespace}/${wi.serviceAccount}`;
+		if (seen.includes(key)) {
+			problems.add(
+				`${path}.serviceAccount`,
+				`duplicate workload identity service account ${key}`,
+			);
+		}
+		seen.push(key);
+		checkWorkloadIdentity(problems, path, wi);
+	});
+}
+
+/** Check a DNS name is lowercase and has a trailing dot. */
+function checkDnsName(
+	problems: ConfigProblems,
+	path: string,
+	dnsName: string,
+): void {
+	if (typeof dnsName !== "string" || !dnsName) {
+		problems.add(path, 'required, a DNS name like "k8s.example.com."');
+		return;
+	}
+	if (!dnsName.endsWith(".")) {
+		problems.add(
+			path,
+			`${dnsName} must end with a trailing dot, i.e., "${dnsName}."`,
+		);
+	}
+	const labels = dnsName.replace(/\.$/, "").split(".");
+	if (
+		labels.length < 2 ||
+		labels.some(l => !/^[a-z0-9]([-a-z0-9]{0,61}[a-z0-9])?$/.test(l))
+	) {
+		problems.add(
+			path,
+			`${dnsName} is not a valid lowercase DNS name like "k8s.example.com."`,
+		);
+	}
+}
+
+/** Check the existing, parent, and private DNS zones. */
+function checkDns(problems: ConfigProblems, c: StackConfig): void {
+	for (const key of ["existingZone", "parentZone"] as const) {
+		const zone = c.dns[key];
+		if (zone === undefined) {
+			continue;
+		}
+		if (
+			!zone.name ||
+			!/^[a-z]([-a-z0-9]{0,61}[a-z0-9])?$/.test(zone.name)
+		) {
+			problems.add(
+				`dns.${key}.name`,
+				`${JSON.stringify(
+					zone.name,
+				)} is not a managed zone name like "example-com"`,
+			);
+		}
+		if (
+			zone.project === undefined
+				? key === "parentZone"
+				: !projectIdPattern.test(zone.project)
+		) {
+			problems.add(
+				`dns.${key}.project`,
+				`${JSON.stringify(zone.project)} is not a GCP project ID`,
+			);
+		}
+	}
+	const privateZone = c.dns.privateZone;
+	if (privateZone !== undefined) {
+		checkDnsName(problems, "dns.privateZone.dnsName", privateZone.dnsName);
+	}
+}
+
+/**
+ * Check the Cloud NAT settings, and that its static addresses have
+ * enough ports for the maximum number of nodes.
+ */
+function checkNat(problems: ConfigProblems, c: StackConfig): void {
+	const nat = c.nat;
+	const addresses = checkInteger(problems, "nat.addresses", nat.addresses, 0);
+	const minPorts = checkInteger(
+		problems,
+		"nat.minPortsPerVm",
+		nat.minPortsPerVm,
+		2,
+		natPortsPerAddress,
+	);
+	if (nat.logging !== undefined && !natLogFilters.includes(nat.logging)) {
+		problems.add(
+			"nat.logging",
+			`must be one of ${natLogFilters.join(", ")}, got ${JSON.stringify(
+				nat.logging,
+			)}`,
+		);
+	}
+	for (const [key, value] of Object.entries(nat.timeouts || {})) {
+		checkInteger(problems, `nat.timeouts.${key}`, value, 1);
+	}
+	if (!addresses || !minPorts || !nat.addresses) {
+		return;
+	}
+	const maxNodes = (c.gke.nodePools || [{ name: "wi-pool" }])
+		.map(np => nodePoolMaxNodes(c, np))
+		.reduce((a, b) => a + b, 0);
+	const ports = nat.minPortsPerVm ?? 64;
+	const capacity = nat.addresses * Math.floor(natPortsPerAddress / ports);
+	if (capacity < maxNodes) {
+		problems.add(
+			"nat.addresses",
+			`${nat.addresses} addresses with ${ports} ports per node serve ${capacity} nodes but the node pools can scale to ${maxNodes} nodes`,
+		);
+	}
+}
+
+/**
+ * Check the firewall rules are complete, have unique names, and do
+ * not conflict with rules of the same priority or the egress
+ * lockdown.
+ */
+function checkFirewall(problems: ConfigProblems, c: StackConfig): void {
+	c.firewall.forEach((rule, i) => {
+		const path = `firewall[${i}]`;
+		if (
+			!rule.name ||
+			!/^[a-z]([-a-z0-9]{0,50}[a-z0-9])?$/.test(rule.name)
+		) {
+			problems.add(
+				`${path}.name`,
+				`${JSON.stringify(
+					rule.name,
+				)} is not a firewall rule name, use at most 52 lowercase letters, digits, and "-"`,
+			);
+		} else if (reservedFirewallNames.includes(rule.name)) {
+			problems.add(`${path}.name`, `${rule.name} is reserved`);
+		} else if (c.firewall.slice(0, i).some(r => r.name === rule.name)) {
+			problems.add(
+				`${path}.name`,
+				`duplicate firewall rule ${rule.name}`,
+			);
+		}
+		if (
+			rule.action !== undefined &&
+			!["allow", "deny"].includes(rule.action)
+		) {
+			problems.add(
+				`${path}.action`,
+				`must be "allow" or "deny", got ${JSON.stringify(rule.action)}`,
+			);
+		}
+		const direction = rule.direction ?? "INGRESS";
+		if (!["EGRESS", "INGRESS"].includes(direction)) {
+			problems.add(
+				`${path}.direction`,
+				`must be "INGRESS" or "EGRESS", got ${JSON.stringify(
+					direction,
+				)}`,
+			);
+		}
+		checkInteger(problems, `${path}.priority`, rule.priority, 0, 65535);
+		const protocols = rule.protocols || ["tcp"];
+		protocols.forEach((p, j) => {
+			if (!firewallProtocols.includes(p)) {
+				problems.add(
+					`${path}.protocols[${j}]`,
+					`must be one of ${firewallProtocols.join(
+						", ",
+					)}, got ${JSON.stringify(p)}`,
+				);
+			}
+		});
+		if (
+			rule.ports !== undefined &&
+			!protocols.some(p => ["sctp", "tcp", "udp"].includes(p))
+		) {
+			problems.add(`${path}.ports`, "ports require tcp, udp, or sctp");
+		}
+		(rule.ports || []).forEach((port, j) => {
+			const ports = /^(\d+)(?:-(\d+))?$/.exec(port);
+			if (
+				!ports ||
+				[ports[1], ports[2] ?? ports[1]].some(
+					p => +p < 1 || +p > 65535,
+				) ||
+				+ports[1] > +(ports[2] ?? ports[1])
+			) {
+				problems.add(
+					`${path}.ports[${j}]`,
+					`${JSON.stringify(
+						port,
+					)} is not a port like "443" or range like "8000-8999"`,
+				);
+			}
+		});
+		const required =
+			direction === "EGRESS" ? "destinationRanges" : "sourceRanges";
+		const other =
+			direction === "EGRESS" ? "sourceRanges" : "destinationRanges";
+		if (!rule[required] || rule[required]!.length < 1) {
+			problems.add(
+				`${path}.${required}`,
+				`an ${direction.toLowerCase()} rule must list at least one CIDR block`,
+			);
+		}
+		if (rule[other] !== undefined) {
+			problems.add(
+				`${path}.${other}`,
+				`not allowed for an ${direction.toLowerCase()} rule`,
+			);
+		}
+		(rule[required] || []).forEach((b, j) =>
+			checkCidr(problems, `${path}.${required}[${j}]`, b),
+		);
+		(rule.targetTags || []).forEach((t, j) => {
+			if (!/^[a-z]([-a-z0-9]{0,61}[a-z0-9])?$/.test(t)) {
+				problems.add(
+					`${path}.targetTags[${j}]`,
+					`${JSON.stringify(t)} is not a network tag`,
+				);
+			}
+		});
+		const priority = rule.priority ?? 1000;
+		const conflict = c.firewall
+			.slice(0, i)
+			.find(
+				r =>
+					(r.direction ?? "INGRESS") === direction &&
+					(r.priority ?? 1000) === priority &&
+					[r.action, rule.action].every(
+						a => a === undefined || ["allow", "deny"].includes(a),
+					) &&
+					(r.action ?? "allow") !== (rule.action ?? "allow"),
+			);
+		if (conflict) {
+			problems.add(
+				`${path}.priority`,
+				`${direction.toLowerCase()} rule ${
+					rule.name
+				} has the same priority, ${priority}, as ${
+					conflict.name
+				} but the opposite action, use different priorities`,
+			);
+		}
+		if (
+			c.egressLockdown.enabled &&
+			direction === "EGRESS" &&
+			(rule.action ?? "allow") === "allow" &&
+			priority >= egressDenyPriority
+		) {
+			problems.add(
+				`${path}.priority`,
+				`egress rule ${rule.name} must have a priority below ${egressDenyPriority}, the egress lockdown deny rule priority`,
+			);
+		}
+	});
+	const allowed = c.egressLockdown.allowedCidrBlocks || [];
+	allowed.forEach((b, i) =>
+		checkCidr(
+			problems,
+			`egressLockdown.allowedCidrBlocks[${i}].cidrBlock`,
+			b.cidrBlock,
+		),
+	);
+	if (c.egressLockdown.enabled && c.acme.email && allowed.length < 1) {
+		problems.add(
+			"egressLockdown.allowedCidrBlocks",
+			"cert-manager issues certificates through the Let's Encrypt ACME API and checks DNS01 challenges with public name servers, allow their addresses or unset acme.email",
+		);
+	}
+}
+
+/** Check the internal ingress controller and its private zone. */
+function checkInternalIngress(problems: ConfigProblems, c: StackConfig): void {
+	const ingress = c.internalIngress;
+	const ingressClass = ingress.ingressClass;
+	if (
+		ingressClass !== undefined &&
+		(!kubernetesNamePattern.test(ingressClass) || ingressClass === "nginx")
+	) {
+		problems.add(
+			"internalIngress.ingressClass",
+			`${JSON.stringify(
+				ingressClass,
+			)} is not an ingress class name other than "nginx", like "nginx-internal"`,
+		);
+	}
+	(ingress.sourceRanges || []).forEach((b, i) =>
+		checkCidr(problems, `internalIngress.sourceRanges[${i}]`, b),
+	);
+	if (ingress.enabled && !c.dns.privateZone) {
+		problems.add(
+			"internalIngress.enabled",
+			"requires dns.privateZone, where external-dns creates the records of internal ingresses",
+		);
+	}
+}
+
+/** Check the folder and organization of projects to create. */
+function checkProjectParent(
+	problems: ConfigProblems,
+	path: string,
+	p: { folderId?: string; orgId?: string },
+): void {
+	for (const key of ["folderId", "orgId"] as const) {
+		const id = p[key];
+		if (id !== undefined && !numericIdPattern.test(id)) {
+			problems.add(
+				`${path}.${key}`,
+				`${JSON.stringify(id)} is not a numeric ID`,
+			);
+		}
+	}
+	if (p.folderId !== undefined && p.orgId !== undefined) {
+		problems.add(`${path}.orgId`, "cannot be set with folderId");
+	}
+}
+
+/**
+ * Check the projects to create or adopt, and that the billing account
+ * to create them is set.
+ */
+function checkProjects(problems: ConfigProblems, c: StackConfig): void {
+	checkProjectParent(problems, "projects", c.projects);
+	const created: string[] = [];
+	for (const key of ["cluster", "dns", "kms"] as const) {
+		const p = c.projects[key] || {};
+		const path = `projects.${key}`;
+		checkProjectParent(problems, path, p);
+		if (p.existing && (p.folderId !== undefined || p.orgId !== undefined)) {
+			problems.add(
+				`${path}.existing`,
+				"an existing project cannot have a folderId or orgId",
+			);
+		}
+		if (p.projectId !== undefined) {
+			if (key === "cluster") {
+				problems.add(
+					`${path}.projectId`,
+					"not supported, the cluster project ID is the gcp:project configuration value",
+				);
+			} else if (!projectIdPattern.test(p.projectId)) {
+				problems.add(
+					`${path}.projectId`,
+					`${JSON.stringify(p.projectId)} is not a GCP project ID`,
+				);
+			}
+		}
+		if (!p.existing) {
+			created.push(key);
+		}
+	}
+	const dnsProject = c.projects.dns || {};
+	const kmsProject = c.projects.kms || {};
+	if (
+		(dnsProject.projectId || `${c.purpose}-dns`) ===
+			(kmsProject.projectId || `${c.purpose}-kms`) &&
+		!(dnsProject.existing && kmsProject.existing)
+	) {
+		problems.add(
+			"projects.kms.projectId",
+			"is the DNS project ID, only existing projects can be shared",
+		);
+	}
+	if (!c.billingAccount && created.length > 0) {
+		problems.add(
+			"billingAccount",
+			`required to create the ${created.join(", ")} projects`,
+		);
+	}
+}
+
+/**
+ * Check the Shared VPC subnetwork is complete, the address plan has its
+ * ranges, and Cloud NAT, which the host project manages, is not
+ * configured.
+ */
+function checkSharedVpc(problems: ConfigProblems, c: StackConfig): void {
+	const vpc = c.sharedVpc;
+	const names = ["podsRangeName", "servicesRangeName", "subnetwork"] as const;
+	if (vpc.hostProject === undefined) {
+		for (const key of names) {
+			if (vpc[key] !== undefined) {
+				problems.add(
+					`sharedVpc.${key}`,
+					"requires sharedVpc.hostProject",
+				);
+			}
+		}
+		return;
+	}
+	if (!projectIdPattern.test(vpc.hostProject)) {
+		problems.add(
+			"sharedVpc.hostProject",
+			`${JSON.stringify(vpc.hostProject)} is not a GCP project ID`,
+		);
+	}
+	for (const key of names) {
+		const name = vpc[key];
+		if (name === undefined) {
+			problems.add(
+				`sharedVpc.${key}`,
+				"required with a Shared VPC host project",
+			);
+		} else if (!computeNamePattern.test(name)) {
+			problems.add(
+				`sharedVpc.${key}`,
+				`${JSON.stringify(name)} is not a Compute Engine resource name`,
+			);
+		}
+	}
+	for (const key of [
+		"podsCidrBlock",
+		"servicesCidrBlock",
+		"subnetCidrBlock",
+	] as const) {
+		if (c.network[key] === undefined) {
+			problems.add(
+				`network.${key}`,
+				"required with a Shared VPC host project, the range of its subnetwork",
+			);
+		}
+	}
+	if (Object.keys(c.nat).length > 0) {
+		problems.add(
+			"nat",
+			"not used with a Shared VPC host project, which manages Cloud NAT",
+		);
+	}
+}
+
+/** Check the key ring location, protection level, and key rotation. */
+function checkKms(problems: ConfigProblems, c: StackConfig): void {
+	const kms = c.kms;
+	if (kms.location !== undefined && !kmsLocationPattern.test(kms.location)) {
+		problems.add(
+			"kms.location",
+			`${JSON.stringify(
+				kms.location,
+			)} is not a Cloud KMS location like "us-central1"`,
+		);
+	}
+	if (
+		kms.protectionLevel !== undefined &&
+		!kmsProtectionLevels.includes(kms.protectionLevel)
+	) {
+		problems.add(
+			"kms.protectionLevel",
+			`must be one of ${kmsProtectionLevels.join(
+				", ",
+			)}, got ${JSON.stringify(kms.protectionLevel)}`,
+		);
+	}
+	checkInteger(problems, "kms.rotationDays", kms.rotationDays, 1, 36500);
+}
+
+/**
+ * Check the Let's Encrypt account of the cluster issuers, which are
+ * only created if its email address is set.
+ */
+function checkAcme(problems: ConfigProblems, c: StackConfig): void {
+	if (c.acme.email === undefined) {
+		if (c.acme.http01IngressClass !== undefined) {
+			problems.add(
+				"acme.email",
+				"required by acme.http01IngressClass, the Let's Encrypt account email address of the cluster issuers",
+			);
+		}
+	} else if (!emailPattern.test(c.acme.email)) {
+		problems.add(
+			"acme.email",
+			`${JSON.stringify(c.acme.email)} is not an email address`,
+		);
+	}
+	const ingressClass = c.acme.http01IngressClass;
+	if (
+		ingressClass !== undefined &&
+		!kubernetesNamePattern.test(ingressClass)
+	) {
+		problems.add(
+			"acme.http01IngressClass",
+			`${JSON.stringify(
+				ingressClass,
+			)} is not a valid ingress class name like "nginx"`,
+		);
+	}
+}
+
+/** Check the GKE addons are consistent. */
+function checkGkeAddons(problems: ConfigProblems, c: StackConfig): void {
+	const addons = c.gke.addons || {};
+	if (addons.cloudRun && !addons.httpLoadBalancing) {
+		problems.add(
+			"gke.addons.cloudRun",
+			"Cloud Run needs gke.addons.httpLoadBalancing",
+		);
+	}
+}
+
+/** Check the cluster autoscaler and node auto-provisioning. */
+function checkAutoscaling(problems: ConfigProblems, c: StackConfig): void {
+	const autoscaling = c.gke.autoscaling || {};
+	if (
+		autoscaling.profile !== undefined &&
+		!autoscalingProfiles.includes(autoscaling.profile)
+	) {
+		problems.add(
+			"gke.autoscaling.profile",
+			`must be one of ${autoscalingProfiles.join(
+				", ",
+			)}, got ${JSON.stringify(autoscaling.profile)}`,
+		);
+	}
+	const limits = autoscaling.resourceLimits || [];
+	const types: string[] = [];
+	limits.forEach((l, i) => {
+		const path = `gke.autoscaling.resourceLimits[${i}]`;
+		if (!resourceLimitTypePattern.test(l.resourceType || "")) {
+			problems.add(
+				`${path}.resourceType`,
+				`${JSON.stringify(
+					l.resourceType,
+				)} is not "cpu", "memory", or a GPU type like "nvidia-tesla-t4"`,
+			);
+		} else if (types.includes(l.resourceType)) {
+			problems.add(
+				`${path}.resourceType`,
+				`duplicate resource type ${l.resourceType}`,
+			);
+		}
+		types.push(l.resourceType);
+		if (l.maximum === undefined) {
+			problems.add(`${path}.maximum`, "is required");
+		}
+		const maxOk = checkInteger(problems, `${path}.maximum`, l.maximum, 1);
+		const minOk = checkInteger(problems, `${path}.minimum`, l.minimum, 0);
+		if (
+			maxOk &&
+			minOk &&
+			l.maximum !== undefined &&
+			l.minimum !== undefined &&
+			l.minimum > l.maximum
+		) {
+			problems.add(
+				`${path}.minimum`,
+				`must not be greater than maximum (${l.maximum}), got ${l.minimum}`,
+			);
+		}
+	});
+	if (!autoscaling.autoProvisioning) {
+		if (limits.length > 0) {
+			problems.add(
+				"gke.autoscaling.resourceLimits",
+				"only apply to node auto-provisioning, enable gke.autoscaling.autoProvisioning or remove them",
+			);
+		}
+		return;
+	}
+	const missing = ["cpu", "memory"].filter(t => !types.includes(t));
+	if (missing.length > 0) {
+		problems.add(
+			"gke.autoscaling.resourceLimits",
+			`node auto-provisioning needs limits for ${missing.join(" and ")}`,
+		);
+	}
+}
+
+/** Check the bastion of a private control plane endpoint. */
+function checkPrivateEndpoint(problems: ConfigProblems, c: StackConfig): void {
+	const pe = c.privateEndpoint;
+	if (!pe.enabled) {
+		return;
+	}
+	if (pe.bastion !== false) {
+		if (pe.group === undefined) {
+			problems.add(
+				"privateEndpoint.group",
+				"required, the Google Group allowed to tunnel to the bastion",
+			);
+		} else if (!emailPattern.test(pe.group)) {
+			problems.add(
+				"privateEndpoint.group",
+				`${JSON.stringify(
+					pe.group,
+				)} is not a Google Group email address`,
+			);
+		}
+	}
+	if (pe.zone !== undefined) {
+		checkZone(problems, "privateEndpoint.zone", pe.zone, c.region);
+	}
+	if (c.kubeconfig.privateEndpoint === false) {
+		problems.add(
+			"kubeconfig.privateEndpoint",
+			"cannot be false when the public endpoint is disabled",
+		);
+	}
+}
+
+/** Check the kubeconfig options. */
+function checkKubeconfig(problems: ConfigProblems, c: StackConfig): void {
+	const sa = c.kubeconfig.impersonateServiceAccount;
+	if (
+		sa !== undefined &&
+		!/^[a-z][-a-z0-9]{4,28}[a-z0-9]@[a-z][-a-z0-9]{4,28}[a-z0-9]\.iam\.gserviceaccount\.com$/.test(
+			sa,
+		)
+	) {
+		problems.add(
+			"kubeconfig.impersonateServiceAccount",
+			`${JSON.stringify(
+				sa,
+			)} is not a GCP service account email like "deployer@my-project.iam.gserviceaccount.com"`,
+		);
+	}
+	const proxyUrl = c.kubeconfig.proxyUrl;
+	if (proxyUrl !== undefined && !/^(https?|socks5):\/\/\S+$/.test(proxyUrl)) {
+		problems.add(
+			"kubeconfig.proxyUrl",
+			`${JSON.stringify(
+				proxyUrl,
+			)} is not a proxy URL like "socks5://localhost:1080"`,
+		);
+	}
+}
+
+/**
+ * Check the RBAC subjects are email addresses, recording a problem
+ * and returning false if there are none.
+ */
+function checkRbacSubjects(
+	problems: ConfigProblems,
+	path: string,
+	s: RbacSubjectsConfig,
+	securityGroup: string | undefined,
+): boolean {
+	let count = 0;
+	for (const key of ["groups", "serviceAccounts", "users"] as const) {
+		const emails = s[key];
+		if (emails === undefined) {
+			continue;
+		}
+		if (!Array.isArray(emails)) {
+			problems.add(`${path}.${key}`, "must be a list of email addresses");
+			continue;
+		}
+		emails.forEach((email, i) => {
+			count++;
+			if (
+				typeof email !== "string" ||
+				!emailPattern.test(email) ||
+				(key === "serviceAccounts" &&
+					!email.endsWith(".gserviceaccount.com"))
+			) {
+				problems.add(
+					`${path}.${key}[${i}]`,
+					`${JSON.stringify(email)} is not a ${
+						key === "serviceAccounts"
+							? "GCP service account email"
+							: "Google account email"
+					} address`,
+				);
+			} else if (key === "groups" && !securityGroup) {
+				problems.add(
+					`${path}.${key}[${i}]`,
+					"Google Groups require the rbac.securityGroup",
+				);
+			}
+		});
+	}
+	if (count < 1) {
+		problems.add(
+			path,
+			"must list at least one group, service account, or user",
+		);
+		return false;
+	}
+	return true;
+}
+
+/** Check the cluster access control configuration. */
+function checkRbac(problems: ConfigProblems, c: StackConfig): void {
+	const securityGroup = c.rbac.securityGroup;
+	if (
+		securityGroup !== undefined &&
+		!/^gke-security-groups@[a-z0-9.-]+\.[a-z]+$/.test(securityGroup)
+	) {
+		problems.add(
+			"rbac.securityGroup",
+			`${JSON.stringify(
+				securityGroup,
+			)} is not a Google Group named like "gke-security-groups@example.com"`,
+		);
+	}
+	if (c.rbac.operators !== undefined) {
+		checkRbacSubjects(
+			problems,
+			"rbac.operators",
+			c.rbac.operators,
+			securityGroup,
+		);
+	}
+	const seen: string[] = [];
+	(c.rbac.bindings || []).forEach((b, i) => {
+		const path = `rbac.bindings[${i}]`;
+		for (const key of ["name", "namespace"] as const) {
+			if (
+				(key === "name" || b[key] !== undefined) &&
+				!kubernetesNamePattern.test(b[key] || "")
+			) {
+				problems.add(
+					`${path}.${key}`,
+					`${JSON.stringify(b[key])} is not a valid Kubernetes name`,
+				);
+			}
+		}
+		const id = `${b.namespace || ""}/${b.name}`;
+		if (seen.includes(id)) {
+			problems.add(
+				`${path}.name`,
+				`duplicate role binding ${b.name}${
+					b.namespace ? ` in namespace ${b.namespace}` : ""
+				}`,
+			);
+		}
+		seen.push(id);
+		if (typeof b.role !== "string" || b.role.length < 1) {
+			problems.add(
+				`${path}.role`,
+				"required, the name of the role to bind",
+			);
+		}
+		if (
+			b.roleKind !== undefined &&
+			!["ClusterRole", "Role"].includes(b.roleKind)
+		) {
+			problems.add(
+				`${path}.roleKind`,
+				`must be ClusterRole or Role, got ${JSON.stringify(
+					b.roleKind,
+				)}`,
+			);
+		} else if (b.roleKind === "Role" && b.namespace === undefined) {
+			problems.add(
+				`${path}.namespace`,
+				"required to bind a Role, which is namespaced",
+			);
+		}
+		checkRbacSubjects(problems, path, b, securityGroup);
+	});
+}
+
+/** Namespaces the tenants must not use. */
+const reservedNamespaces = [
+	"cert-manager",
+	"default",
+	"external-dns",
+	"ingress-nginx",
+	"kube-node-lease",
+	"kube-public",
+	"kube-system",
+];
+
+/** Check the tenant namespaces and their workload identities. */
+function checkTenants(problems: ConfigProblems, c: StackConfig): void {
+	const namespaces: string[] = [];
+	const serviceAccounts = c.workloadIdentities.map(
+		wi => `${wi.namespace}/${wi.serviceAccount}`,
+	);
+	c.tenants.forEach((t, i) => {
+		const path = `tenants[${i}]`;
+		if (!kubernetesNamePattern.test(t.name || "")) {
+			problems.add(
+				`${path}.name`,
+				`${JSON.stringify(t.name)} is not a valid Kubernetes name`,
+			);
+		} else if (reservedNamespaces.includes(t.name)) {
+			problems.add(
+				`${path}.name`,
+				`${t.name} is a system or addon namespace`,
+			);
+		} else if (namespaces.includes(t.name)) {
+			problems.add(`${path}.name`, `duplicate tenant ${t.name}`);
+		}
+		namespaces.push(t.name);
+		if (typeof t.group !== "string" || !emailPattern.test(t.group)) {
+			problems.add(
+				`${path}.group`,
+				`${JSON.stringify(
+					t.group,
+				)} is not a Google Group email address`,
+			);
+		} else if (!c.rbac.securityGroup) {
+			problems.add(
+				`${path}.group`,
+				"Google Groups require the rbac.securityGroup",
+			);
+		}
+		if (t.role !== undefined && !t.role) {
+			problems.add(`${path}.role`, "must be a cluster role name");
+		}
+		for (const [key, value] of Object.entries(t.quota || {})) {
+			if (typeof value !== "string" && typeof value !== "number") {
+				problems.add(
+					`${path}.quota.${key}`,
+					`${JSON.stringify(value)} is not a resource quantity`,
+				);
+			}
+		}
+		const wi = t.workloadIdentity;
+		if (wi !== undefined && kubernetesNamePattern.test(t.name || "")) {
+			const serviceAccount = wi.serviceAccount || t.name;
+			checkWorkloadIdentity(problems, `${path}.workloadIdentity`, {
+				...wi,
+				namespace: t.name,
+				serviceAccount,
+			});
+			const key = `${t.name}/${serviceAccount}`;
+			if (serviceAccounts.includes(key)) {
+				problems.add(
+					`${path}.workloadIdentity.serviceAccount`,
+					`duplicate workload identity service account ${key}`,
+				);
+			}
+			serviceAccounts.push(key);
+		}
+	});
+}
+
+/** Check the billing budgets. */
+function checkBudgets(problems: ConfigProblems, c: StackConfig): void {
+	const b = c.budgets;
+	for (const [project, amount] of Object.entries(b.amounts || {})) {
+		const path = `budgets.amounts.${project}`;
+		if (!["cluster", "dns", "kms"].includes(project)) {
+			problems.add(path, `must be cluster, dns, or kms`);
+		} else if (
+			typeof amount !== "number" ||
+			!Number.isFinite(amount) ||
+			amount <= 0
+		) {
+			problems.add(path, `must be a positive number, got ${amount}`);
+		}
+	}
+	if (!c.billingAccount && Object.values(b.amounts || {}).some(a => a)) {
+		problems.add("billingAccount", "required to create the budgets");
+	}
+	if (b.currencyCode !== undefined && !/^[A-Z]{3}$/.test(b.currencyCode)) {
+		problems.add(
+			"budgets.currencyCode",
+			`${JSON.stringify(
+				b.currencyCode,
+			)} is not an ISO 4217 currency code like "USD"`,
+		);
+	}
+	(b.thresholdPercents || []).forEach((t, i) => {
+		if (typeof t !== "number" || !(t > 0)) {
+			problems.add(
+				`budgets.thresholdPercents[${i}]`,
+				`must be a positive percentage, got ${t}`,
+			);
+		}
+	});
+	const channels = b.notificationChannels || [];
+	if (channels.length > 5) {
+		problems.add(
+			"budgets.notificationChannels",
+			`a budget can notify at most 5 channels, got ${channels.length}`,
+		);
+	}
+	channels.forEach((ch, i) => {
+		if (!/^projects\/[^/]+\/notificationChannels\/[^/]+$/.test(ch)) {
+			problems.add(
+				`budgets.notificationChannels[${i}]`,
+				`${JSON.stringify(
+					ch,
+				)} is not a notification channel like "projects/PROJECT/notificationChannels/ID"`,
+			);
+		}
+	});
+}
+
+/** Check the notification channels and alert policy settings. */
+function checkMonitoring(problems: ConfigProblems, c: StackConfig): void {
+	const m = c.monitoring;
+	const names: string[] = [];
+	(m.notificationChannels || []).forEach((ch, i) => {
+		const path = `monitoring.notificationChannels[${i}]`;
+		if (typeof ch.name !== "string" || ch.name.length < 1) {
+			problems.add(`${path}.name`, "required, the channel display name");
+		} else if (names.includes(ch.name)) {
+			problems.add(
+				`${path}.name`,
+				`duplicate notification channel ${ch.name}`,
+			);
+		}
+		names.push(ch.name);
+		if ((ch.email === undefined) === (ch.webhookUrl === undefined)) {
+			problems.add(path, "must set exactly one of email and webhookUrl");
+		} else if (ch.email !== undefined && !emailPattern.test(ch.email)) {
+			problems.add(
+				`${path}.email`,
+				`${JSON.stringify(ch.email)} is not an email address`,
+			);
+		} else if (
+			ch.webhookUrl !== undefined &&
+			!/^https:\/\/[^/\s]+/.test(ch.webhookUrl)
+		) {
+			problems.add(
+				`${path}.webhookUrl`,
+				`${JSON.stringify(ch.webhookUrl)} is not an HTTPS URL`,
+			);
+		}
+	});
+	checkInteger(
+		problems,
+		"monitoring.certificateExpiryDays",
+		m.certificateExpiryDays,
+		1,
+	);
+	(m.certificateHosts || []).forEach((h, i) => {
+		if (
+			typeof h !== "string" ||
+			!/^([a-z0-9]([-a-z0-9]*[a-z0-9])?\.)+[a-z]+$/.test(h)
+		) {
+			problems.add(
+				`monitoring.certificateHosts[${i}]`,
+				`${JSON.stringify(
+					h,
+				)} is not a host name like "app.k8s.example.com"`,
+			);
+		}
+	});
+}
+
+/** Configuration keys of the addon versions. */
+export const addonConfigKeys: Record<
+	Addon,
+	Exclude<keyof AddonsConfig, "manifestDirectory">
+> = {
+	"cert-manager": "certManager",
+	"external-dns": "externalDns",
+	"ingress-nginx": "ingressNginx",
+};
+
+/**
+ * Check the configured addon versions are vendored and their
+ * manifests match their checksums.
+ */
+function checkAddons(problems: ConfigProblems, c: StackConfig): void {
+	const directory = c.addons.manifestDirectory || defaultManifestDirectory;
+	let manifest: VersionManifest;
+	try {
+		manifest = readVersionManifest(directory);
+	} catch (e) {
+		problems.add(
+			"addons.manifestDirectory",
+			`failed to read version manifest: ${(e as Error).message}`,
+		);
+		return;
+	}
+	for (const addon of Object.keys(addonConfigKeys) as Addon[]) {
+		const key = addonConfigKeys[addon];
+		const version = c.addons[key] || manifest[addon]?.default;
+		try {
+			vendoredManifest(directory, addon, version);
+		} catch (e) {
+			problems.add(`addons.${key}`, (e as Error).message);
+		}
+	}
+}
+
+/**
+ * Check the stack configuration, reporting every problem found, after
+ * those already in `problems`. This function does not use Pulumi or
+ * call any GCP API.
+ */
+export function configProblems(
+	c: StackConfig,
+	problems = new ConfigProblems(),
+): ConfigProblem[] {
+	if (!/^[a-z]+-[a-z]+\d+$/.test(c.region)) {
+		problems.add(
+			"gcp:region",
+			`${JSON.stringify(
+				c.region,
+			)} is not a GCP region like "us-central1"`,
+		);
+	}
+	checkLabelValue(problems, "env", c.env);
+	checkLabelValue(problems, "purpose", c.purpose);
+
+	checkDnsName(problems, "dnsName", c.dnsName);
+
+	const gke = c.gke;
+	if (gke.channel !== undefined && !channels.includes(gke.channel)) {
+		problems.add(
+			"gke.channel",
+			`must be one of ${channels.join(", ")}, got ${gke.channel}`,
+		);
+	}
+	if (gke.location !== undefined && gke.location !== c.region) {
+		checkZone(problems, "gke.location", gke.location, c.region);
+	}
+	(gke.zones || []).forEach((z, i) =>
+		checkZone(problems, `gke.zones[${i}]`, z, c.region),
+	);
+	(gke.masterAuthorizedNetworkCidrBlocks || []).forEach((b, i) =>
+		checkCidr(
+			problems,
+			`gke.masterAuthorizedNetworkCidrBlocks[${i}].cidrBlock`,
+			b.cidrBlock,
+		),
+	);
+
+	const minOk = checkInteger(
+		problems,
+		"gke.minNodeCount",
+		gke.minNodeCount,
+		0,
+	);
+	const maxOk = checkInteger(
+		problems,
+		"gke.maxNodeCount",
+		gke.maxNodeCount,
+		1,
+	);
+	const gkeMin = gke.minNodeCount ?? 1;
+	const gkeMax = gke.maxNodeCount ?? 3;
+	if (minOk && maxOk && gkeMin > gkeMax) {
+		problems.add(
+			"gke.minNodeCount",
+			`must not be greater than gke.maxNodeCount (${gkeMax}), got ${gkeMin}`,
+		);
+	}
+
+	const poolNames: string[] = [];
+	(gke.nodePools || []).forEach((np, i) => {
+		const path = `gke.nodePools[${i}]`;
+		if (!np.name || !/^[a-z]([-a-z0-9]{0,38}[a-z0-9])?$/.test(np.name)) {
+			problems.add(
+				`${path}.name`,
+				`${JSON.stringify(
+					np.name,
+				)} is not a valid node pool name, use at most 40 lowercase letters, digits, and "-"`,
+			);
+		} else if (poolNames.includes(np.name)) {
+			problems.add(`${path}.name`, `duplicate node pool name ${np.name}`);
+		}
+		poolNames.push(np.name);
+
+		const poolMinOk = checkInteger(
+			problems,
+			`${path}.minNodeCount`,
+			np.minNodeCount,
+			0,
+		);
+		const poolMaxOk = checkInteger(
+			problems,
+			`${path}.maxNodeCount`,
+			np.maxNodeCount,
+			1,
+		);
+		const min = np.minNodeCount ?? gke.minNodeCount ?? 1;
+		const max = np.maxNodeCount ?? gke.maxNodeCount ?? 3;
+		const poolBounds =
+			np.minNodeCount !== undefined || np.maxNodeCount !== undefined;
+		if (poolBounds && poolMinOk && poolMaxOk && min > max) {
+			problems.add(
+				`${path}.minNodeCount`,
+				`minimum node count ${min} is greater than maximum node count ${max}`,
+			);
+		}
+		checkInteger(problems, `${path}.diskSizeGb`, np.diskSizeGb, 10);
+		if (np.diskType !== undefined && !diskTypes.includes(np.diskType)) {
+			problems.add(
+				`${path}.diskType`,
+				`must be one of ${diskTypes.join(", ")}, got ${np.diskType}`,
+			);
+		}
+		checkInteger(
+			problems,
+			`${path}.maxPodsPerNode`,
+			np.maxPodsPerNode,
+			8,
+			110,
+		);
+		const surgeOk = checkInteger(
+			problems,
+			`${path}.maxSurge`,
+			np.maxSurge,
+			0,
+		);
+		const unavailableOk = checkInteger(
+			problems,
+			`${path}.maxUnavailable`,
+			np.maxUnavailable,
+			0,
+		);
+		if (
+			surgeOk &&
+			unavailableOk &&
+			np.maxSurge === 0 &&
+			np.maxUnavailable === 0
+		) {
+			problems.add(
+				`${path}.maxSurge`,
+				"maxSurge and maxUnavailable cannot both be 0",
+			);
+		}
+		(np.taints || []).forEach((t, j) => {
+			if (!taintEffects.includes(t.effect)) {
+				problems.add(
+					`${path}.taints[${j}].effect`,
+					`must be one of ${taintEffects.join(", ")}, got ${
+						t.effect
+					}`,
+				);
+			}
+		});
+		(np.zones || []).forEach((z, j) =>
+			checkZone(problems, `${path}.zones[${j}]`, z, c.region),
+		);
+	});
+
+	checkGkeAddons(problems, c);
+	checkAutoscaling(problems, c);
+
+	checkProjects(problems, c);
+	checkAddressPlan(problems, c);
+	checkSharedVpc(problems, c);
+	checkNat(problems, c);
+	checkKms(problems, c);
+	checkFirewall(problems, c);
+	checkWorkloadIdentities(problems, c);
+	checkAddons(problems, c);
+	checkAcme(problems, c);
+	checkKubeconfig(problems, c);
+	checkPrivateEndpoint(problems, c);
+	checkRbac(problems, c);
+	checkTenants(problems, c);
+	checkDns(problems, c);
+	checkInternalIngress(problems, c);
+	checkBudgets(problems, c);
+	checkMonitoring(problems, c);
+
+	return problems.problems;
+}
+
+/**
+ * Check the stack configuration, throwing a ConfigValidationError
+ * listing every problem found and those already in `problems`.
+ */
+export function validateConfig(
+	c: StackConfig,
+	problems?: ConfigProblems,
+): void {
+	const found = configProblems(c, problems);
+	if (found.length > 0) {
+		throw new ConfigValidationError(found);
+	}
+}
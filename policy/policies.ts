@@ -0,0 +1,258 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as gcp from "@pulumi/gcp";
+import {
+	ReportViolation,
+	ResourceValidationPolicy,
+	validateResourceOfType,
+} from "@pulumi/policy";
+
+/** Roles that grant far more than any workload needs. */
+const primitiveRoles = ["roles/editor", "roles/owner"];
+
+/** Report a violation if an IAM role is a primitive role. */
+function checkRole(role: string | undefined, report: ReportViolation): void {
+	if (role && primitiveRoles.includes(role)) {
+		report(
+			`Primitive role ${role} must not be granted, use a predefined or custom role`,
+		);
+	}
+}
+
+/** Parse a duration like "7776000s" into seconds. */
+function durationSeconds(duration: string): number | undefined {
+	const match = /^(\d+(?:\.\d+)?)s$/.exec(duration);
+	return match ? parseFloat(match[1]) : undefined;
+}
+
+/**
+ * Hardening baseline of a production-ready GKE cluster. Each policy's
+ * enforcement level can be changed to "advisory" or "disabled" with
+ * a policy pack configuration file.
+ */
+export const policies: ResourceValidationPolicy[] = [
+	{
+		name: "gke-private-nodes",
+		description: "GKE nodes must not have public IP addresses.",
+		validateResource: validateResourceOfType(
+			gcp.container.Cluster,
+			(cluster, args, report) => {
+				if (cluster.privateClusterConfig?.enablePrivateNodes !== true) {
+					report(
+						"privateClusterConfig.enablePrivateNodes must be true",
+					);
+				}
+			},
+		),
+	},
+	{
+		name: "gke-shielded-nodes",
+		description: "GKE clusters must use shielded nodes.",
+		validateResource: validateResourceOfType(
+			gcp.container.Cluster,
+			(cluster, args, report) => {
+				if (cluster.enableShieldedNodes !== true) {
+					report("enableShieldedNodes must be true");
+				}
+			},
+		),
+	},
+	{
+		name: "gke-no-legacy-authorization",
+		description:
+			"GKE clusters must use RBAC and must not issue client certificates.",
+		validateResource: validateResourceOfType(
+			gcp.container.Cluster,
+			(cluster, args, report) => {
+				if (cluster.enableLegacyAbac === true) {
+					report("enableLegacyAbac must be false");
+				}
+				if (
+					cluster.masterAuth?.clientCertificateConfig
+						?.issueClientCertificate !== false
+				) {
+					report(
+						"masterAuth.clientCertificateConfig.issueClientCertificate must be false",
+					);
+				}
+			},
+		),
+	},
+	{
+		name: "gke-secrets-encryption",
+		description:
+			"GKE clusters must encrypt Kubernetes secrets with a Cloud KMS key.",
+		validateResource: validateResourceOfType(
+			gcp.container.Cluster,
+			(cluster, args, report) => {
+				if (cluster.databaseEncryption?.state !== "ENCRYPTED") {
+					report('databaseEncryption.state must be "ENCRYPTED"');
+				}
+			},
+		),
+	},
+	{
+		name: "gke-master-authorized-networks",
+		description:
+			"The GKE control plane must only be reachable from authorized networks.",
+		enforcementLevel: "advisory",
+		validateResource: validateResourceOfType(
+			gcp.container.Cluster,
+			(cluster, args, report) => {
+				const blocks =
+					cluster.masterAuthorizedNetworksConfig?.cidrBlocks || [];
+				if (!cluster.masterAuthorizedNetworksConfig) {
+					report("masterAuthorizedNetworksConfig must be set");
+				}
+				for (const block of blocks) {
+					if (block.cidrBlock.endsWith("/0")) {
+						report(
+							`Master authorized network ${block.cidrBlock} allows every address`,
+						);
+					}
+				}
+			},
+		),
+	},
+	{
+		name: "gke-workload-identity",
+		description:
+			"GKE clusters must use workload identity and node pools must hide the node metadata.",
+		validateResource: [
+			validateResourceOfType(
+				gcp.container.Cluster,
+				(cluster, args, report) => {
+					if (!cluster.workloadIdentityConfig) {
+						report("workloadIdentityConfig must be set");
+					}
+				},
+			),
+			validateResourceOfType(
+				gcp.container.NodePool,
+				(pool, args, report) => {
+					if (
+						pool.nodeConfig?.workloadMetadataConfig
+							?.nodeMetadata !== "GKE_METADATA_SERVER"
+					) {
+						report(
+							'nodeConfig.workloadMetadataConfig.nodeMetadata must be "GKE_METADATA_SERVER"',
+						);
+					}
+				},
+			),
+		],
+	},
+	{
+		name: "gke-node-secure-boot",
+		description:
+			"GKE nodes must use secure boot, integrity monitoring, and no legacy metadata endpoints.",
+		validateResource: validateResourceOfType(
+			gcp.container.NodePool,
+			(pool, args, report) => {
+				const shielded = pool.nodeConfig?.shieldedInstanceConfig;
+				if (shielded?.enableSecureBoot !== true) {
+					report(
+						"nodeConfig.shieldedInstanceConfig.enableSecureBoot must be true",
+					);
+				}
+				if (shielded?.enableIntegrityMonitoring !== true) {
+					report(
+						"nodeConfig.shieldedInstanceConfig.enableIntegrityMonitoring must be true",
+					);
+				}
+				if (
+					pool.nodeConfig?.metadata?.["disable-legacy-endpoints"] !==
+					"true"
+				) {
+					report(
+						'nodeConfig.metadata["disable-legacy-endpoints"] must be "true"',
+					);
+				}
+			},
+		),
+	},
+	{
+		name: "dns-dnssec",
+		description: "Public Cloud DNS zones must enable DNSSEC.",
+		validateResource: validateResourceOfType(
+			gcp.dns.ManagedZone,
+			(zone, args, report) => {
+				if (
+					(zone.visibility || "public") === "public" &&
+					zone.dnssecConfig?.state !== "on"
+				) {
+					report('dnssecConfig.state must be "on"');
+				}
+			},
+		),
+	},
+	{
+		name: "kms-key-rotation",
+		description: "Cloud KMS keys must be rotated automatically.",
+		configSchema: {
+			properties: {
+				maxRotationDays: {
+					default: 90,
+					minimum: 1,
+					type: "integer",
+				},
+			},
+		},
+		validateResource: validateResourceOfType(
+			gcp.kms.CryptoKey,
+			(key, args, report) => {
+				const { maxRotationDays } = args.getConfig<{
+					maxRotationDays: number;
+				}>();
+				const seconds = key.rotationPeriod
+					? durationSeconds(key.rotationPeriod)
+					: undefined;
+				if (seconds === undefined) {
+					report("rotationPeriod must be set");
+				} else if (seconds > maxRotationDays * 24 * 60 * 60) {
+					report(
+						`rotationPeriod ${key.rotationPeriod} must be at most ${maxRotationDays} days`,
+					);
+				}
+			},
+		),
+	},
+	{
+		name: "iam-no-primitive-roles",
+		description: "The owner and editor roles must not be granted.",
+		validateResource: [
+			validateResourceOfType(gcp.projects.IAMMember, (m, args, report) =>
+				checkRole(m.role, report),
+			),
+			validateResourceOfType(gcp.projects.IAMBinding, (b, args, report) =>
+				checkRole(b.role, report),
+			),
+			validateResourceOfType(
+				gcp.projects.IAMPolicy,
+				(p, args, report) => {
+					const bindings: Array<{ role?: string }> =
+						JSON.parse(p.policyData || "{}").bindings || [];
+					bindings.forEach(b => checkRole(b.role, report));
+				},
+			),
+			validateResourceOfType(
+				gcp.serviceAccount.IAMMember,
+				(m, args, report) => checkRole(m.role, report),
+			),
+		],
+	},
+];
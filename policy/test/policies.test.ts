@@ -0,0 +1,322 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { PolicyResourceOptions, ResourceValidationArgs } from "@pulumi/policy";
+import * as assert from "assert";
+import { policies } from "../policies";
+
+const clusterType = "gcp:container/cluster:Cluster";
+const nodePoolType = "gcp:container/nodePool:NodePool";
+const managedZoneType = "gcp:dns/managedZone:ManagedZone";
+const cryptoKeyType = "gcp:kms/cryptoKey:CryptoKey";
+
+const opts: PolicyResourceOptions = {
+	additionalSecretOutputs: [],
+	aliases: [],
+	customTimeouts: { createSeconds: 0, deleteSeconds: 0, updateSeconds: 0 },
+	ignoreChanges: [],
+	protect: false,
+};
+
+/** Run the named policy against a resource and return its violations. */
+async function violations(
+	name: string,
+	type: string,
+	props: Record<string, any>,
+	config: object = {},
+): Promise<string[]> {
+	const policy = policies.find(p => p.name === name);
+	if (!policy) {
+		throw new Error(`No policy ${name}`);
+	}
+	const isType = (resourceClass: any): boolean =>
+		resourceClass.isInstance({ __pulumiType: type }) === true;
+	const args: ResourceValidationArgs = {
+		asType: (resourceClass: any) =>
+			isType(resourceClass) ? (props as any) : undefined,
+		getConfig: <T extends object>() => config as T,
+		isType,
+		name: "test",
+		opts,
+		props,
+		type,
+		urn: `urn:pulumi:test::iac-gke::${type}::test`,
+	};
+	const validate = policy.validateResource;
+	const messages: string[] = [];
+	for (const v of Array.isArray(validate) ? validate : [validate]) {
+		await v(args, message => messages.push(message));
+	}
+	return messages;
+}
+
+describe("policies", () => {
+	const cluster = {
+		databaseEncryption: {
+			keyName: "projects/p/locations/us-central1/keyRings/r/cryptoKeys/k",
+			state: "ENCRYPTED",
+		},
+		enableLegacyAbac: false,
+		enableShieldedNodes: true,
+		masterAuth: {
+			clientCertificateConfig: { issueClientCertificate: false },
+		},
+		masterAuthorizedNetworksConfig: {
+			cidrBlocks: [{ cidrBlock: "203.0.113.0/24" }],
+		},
+		privateClusterConfig: { enablePrivateNodes: true },
+		workloadIdentityConfig: { identityNamespace: "p.svc.id.goog" },
+	};
+	const nodePool = {
+		nodeConfig: {
+			metadata: { "disable-legacy-endpoints": "true" },
+			shieldedInstanceConfig: {
+				enableIntegrityMonitoring: true,
+				enableSecureBoot: true,
+			},
+			workloadMetadataConfig: { nodeMetadata: "GKE_METADATA_SERVER" },
+		},
+	};
+
+	it("accepts a hardened cluster and node pool", async () => {
+		for (const policy of policies) {
+			assert.deepStrictEqual(
+				await violations(policy.name, clusterType, cluster),
+				[],
+				policy.name,
+			);
+			assert.deepStrictEqual(
+				await violations(policy.name, nodePoolType, nodePool),
+				[],
+				policy.name,
+			);
+		}
+	});
+
+	it("ignores resources of other types", async () => {
+		assert.deepStrictEqual(
+			await violations("gke-private-nodes", nodePoolType, {}),
+			[],
+		);
+		assert.deepStrictEqual(
+			await violations("kms-key-rotation", clusterType, {}),
+			[],
+		);
+	});
+
+	it("requires private nodes", async () => {
+		assert.deepStrictEqual(
+			await violations("gke-private-nodes", clusterType, {
+				...cluster,
+				privateClusterConfig: { enablePrivateNodes: false },
+			}),
+			["privateClusterConfig.enablePrivateNodes must be true"],
+		);
+	});
+
+	it("requires shielded nodes", async () => {
+		assert.deepStrictEqual(
+			await violations("gke-shielded-nodes", clusterType, {
+				...cluster,
+				enableShieldedNodes: undefined,
+			}),
+			["enableShieldedNodes must be true"],
+		);
+	});
+
+	it("rejects legacy authorization", async () => {
+		assert.deepStrictEqual(
+			await violations("gke-no-legacy-authorization", clusterType, {
+				...cluster,
+				enableLegacyAbac: true,
+				masterAuth: undefined,
+			}),
+			[
+				"enableLegacyAbac must be false",
+				"masterAuth.clientCertificateConfig.issueClientCertificate must be false",
+			],
+		);
+	});
+
+	it("requires encrypted secrets", async () => {
+		assert.deepStrictEqual(
+			await violations("gke-secrets-encryption", clusterType, {
+				...cluster,
+				databaseEncryption: { state: "DECRYPTED" },
+			}),
+			['databaseEncryption.state must be "ENCRYPTED"'],
+		);
+	});
+
+	it("requires restricted master authorized networks", async () => {
+		const policy = policies.find(
+			p => p.name === "gke-master-authorized-networks",
+		);
+		assert.strictEqual(policy?.enforcementLevel, "advisory");
+		assert.deepStrictEqual(
+			await violations("gke-master-authorized-networks", clusterType, {
+				...cluster,
+				masterAuthorizedNetworksConfig: undefined,
+			}),
+			["masterAuthorizedNetworksConfig must be set"],
+		);
+		assert.deepStrictEqual(
+			await violations("gke-master-authorized-networks", clusterType, {
+				...cluster,
+				masterAuthorizedNetworksConfig: {
+					cidrBlocks: [{ cidrBlock: "0.0.0.0/0" }],
+				},
+			}),
+			["Master authorized network 0.0.0.0/0 allows every address"],
+		);
+	});
+
+	it("requires workload identity", async () => {
+		assert.deepStrictEqual(
+			await violations("gke-workload-identity", clusterType, {
+				...cluster,
+				workloadIdentityConfig: undefined,
+			}),
+			["workloadIdentityConfig must be set"],
+		);
+		assert.deepStrictEqual(
+			await violations("gke-workload-identity", nodePoolType, {
+				nodeConfig: {
+					...nodePool.nodeConfig,
+					workloadMetadataConfig: { nodeMetadata: "EXPOSE" },
+				},
+			}),
+			[
+				'nodeConfig.workloadMetadataConfig.nodeMetadata must be "GKE_METADATA_SERVER"',
+			],
+		);
+	});
+
+	it("requires secure boot and no legacy metadata endpoints", async () => {
+		assert.deepStrictEqual(
+			await violations("gke-node-secure-boot", nodePoolType, {
+				nodeConfig: {},
+			}),
+			[
+				"nodeConfig.shieldedInstanceConfig.enableSecureBoot must be true",
+				"nodeConfig.shieldedInstanceConfig.enableIntegrityMonitoring must be true",
+				'nodeConfig.metadata["disable-legacy-endpoints"] must be "true"',
+			],
+		);
+	});
+
+	it("requires DNSSEC on public zones", async () => {
+		assert.deepStrictEqual(
+			await violations("dns-dnssec", managedZoneType, {
+				dnssecConfig: { state: "on" },
+			}),
+			[],
+		);
+		assert.deepStrictEqual(
+			await violations("dns-dnssec", managedZoneType, {
+				visibility: "private",
+			}),
+			[],
+		);
+		assert.deepStrictEqual(
+			await violations("dns-dnssec", managedZoneType, {
+				dnssecConfig: { state: "off" },
+				visibility: "public",
+			}),
+			['dnssecConfig.state must be "on"'],
+		);
+	});
+
+	it("requires KMS key rotation within the configured days", async () => {
+		const config = { maxRotationDays: 90 };
+		assert.deepStrictEqual(
+			await violations(
+				"kms-key-rotation",
+				cryptoKeyType,
+				{ rotationPeriod: "7776000s" },
+				config,
+			),
+			[],
+		);
+		assert.deepStrictEqual(
+			await violations("kms-key-rotation", cryptoKeyType, {}, config),
+			["rotationPeriod must be set"],
+		);
+		assert.deepStrictEqual(
+			await violations(
+				"kms-key-rotation",
+				cryptoKeyType,
+				{ rotationPeriod: "7776000s" },
+				{ maxRotationDays: 30 },
+			),
+			["rotationPeriod 7776000s must be at most 30 days"],
+		);
+	});
+
+	it("rejects primitive roles", async () => {
+		const role = (r: string) => ({
+			member: "user:someone@example.com",
+			project: "p",
+			role: r,
+		});
+		for (const type of [
+			"gcp:projects/iAMMember:IAMMember",
+			"gcp:projects/iAMBinding:IAMBinding",
+			"gcp:serviceAccount/iAMMember:IAMMember",
+		]) {
+			assert.deepStrictEqual(
+				await violations(
+					"iam-no-primitive-roles",
+					type,
+					role("roles/container.developer"),
+				),
+				[],
+				type,
+			);
+			assert.deepStrictEqual(
+				await violations(
+					"iam-no-primitive-roles",
+					type,
+					role("roles/owner"),
+				),
+				[
+					"Primitive role roles/owner must not be granted, use a predefined or custom role",
+				],
+				type,
+			);
+		}
+		const policyData = (r: string) =>
+			JSON.stringify({ bindings: [{ members: [], role: r }] });
+		assert.deepStrictEqual(
+			await violations(
+				"iam-no-primitive-roles",
+				"gcp:projects/iAMPolicy:IAMPolicy",
+				{ policyData: policyData("roles/viewer") },
+			),
+			[],
+		);
+		assert.deepStrictEqual(
+			await violations(
+				"iam-no-primitive-roles",
+				"gcp:projects/iAMPolicy:IAMPolicy",
+				{ policyData: policyData("roles/editor") },
+			),
+			[
+				"Primitive role roles/editor must not be granted, use a predefined or custom role",
+			],
+		);
+	});
+});
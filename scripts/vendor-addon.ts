@@ -0,0 +1,123 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/*
+ * Vendor a version of a cluster addon manifest in the k8s directory
+ * and record its checksum in the version manifest.
+ *
+ *     npm run vendor -- ADDON VERSION [--default]
+ *
+ * Upstream manifests are downloaded from the URL in the version
+ * manifest. For manifests maintained in this project, e.g.,
+ * external-dns, edit k8s/ADDON/VERSION.yaml and run this script to
+ * record its new checksum. With --default, the version becomes the
+ * default version of the addon.
+ */
+
+import * as fs from "fs";
+import * as https from "https";
+import * as path from "path";
+import {
+	Addon,
+	defaultManifestDirectory,
+	readVersionManifest,
+	sha256,
+	versionManifestFile,
+} from "../lib/manifests";
+
+/** Download the contents of the URL, following redirects. */
+function download(url: string, redirects = 5): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		https
+			.get(url, res => {
+				const status = res.statusCode || 0;
+				if (status >= 300 && status < 400 && res.headers.location) {
+					res.resume();
+					if (redirects < 1) {
+						reject(new Error(`Too many redirects fetching ${url}`));
+						return;
+					}
+					resolve(
+						download(
+							new URL(res.headers.location, url).toString(),
+							redirects - 1,
+						),
+					);
+					return;
+				}
+				if (status !== 200) {
+					res.resume();
+					reject(new Error(`Failed to fetch ${url}: ${status}`));
+					return;
+				}
+				const chunks: Buffer[] = [];
+				res.on("data", (chunk: Buffer) => chunks.push(chunk));
+				res.on("end", () => resolve(Buffer.concat(chunks)));
+				res.on("error", reject);
+			})
+			.on("error", reject);
+	});
+}
+
+async function main(argv: string[]): Promise<void> {
+	const makeDefault = argv.includes("--default");
+	const args = argv.filter(a => a !== "--default");
+	if (args.length !== 2) {
+		throw new Error("Usage: npm run vendor -- ADDON VERSION [--default]");
+	}
+	const [addon, version] = args as [Addon, string];
+	const directory = defaultManifestDirectory;
+	const manifest = readVersionManifest(directory);
+	const addonVersions = manifest[addon];
+	if (!addonVersions) {
+		throw new Error(
+			`Unknown addon ${addon}, expected one of ${Object.keys(
+				manifest,
+			).join(", ")}`,
+		);
+	}
+
+	const file = `${addon}/${version}.yaml`;
+	const filePath = path.join(directory, file);
+	if (addonVersions.url) {
+		const url = addonVersions.url.replace(/\{version\}/g, version);
+		console.log(`Fetching ${url}`);
+		const content = await download(url);
+		fs.mkdirSync(path.dirname(filePath), { recursive: true });
+		fs.writeFileSync(filePath, content);
+	} else if (!fs.existsSync(filePath)) {
+		throw new Error(
+			`${addon} manifests are maintained in this project, create ${filePath} first`,
+		);
+	}
+
+	addonVersions.versions[version] = { file, sha256: sha256(filePath) };
+	if (makeDefault) {
+		addonVersions.default = version;
+	}
+	fs.writeFileSync(
+		path.join(directory, versionManifestFile),
+		JSON.stringify(manifest, undefined, 4) + "\n",
+	);
+	console.log(
+		`Vendored ${addon} ${version} in ${filePath}, sha256 ${addonVersions.versions[version].sha256}`,
+	);
+}
+
+main(process.argv.slice(2)).catch(e => {
+	console.error(e.message);
+	process.exit(1);
+});
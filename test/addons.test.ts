@@ -0,0 +1,186 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from "assert";
+import * as pulumi from "@pulumi/pulumi";
+import { ClusterAddons, ClusterAddonsArgs } from "../lib/addons";
+import { GkeCluster } from "../lib/cluster";
+import { workloadIdentityAccountId } from "../lib/iam";
+import { Addon, vendoredManifest } from "../lib/manifests";
+import {
+	manifestDirectory,
+	mockResources,
+	promiseOf,
+	setMocks,
+	settle,
+} from "./mocks";
+
+describe("addons", function () {
+	this.timeout(20000);
+
+	before(() => setMocks());
+
+	const manifests = {} as Record<Addon, string>;
+	for (const addon of [
+		"cert-manager",
+		"external-dns",
+		"ingress-nginx",
+	] as Addon[]) {
+		manifests[addon] = vendoredManifest(
+			manifestDirectory,
+			addon,
+			addon === "cert-manager"
+				? "v0.16.1"
+				: addon === "external-dns"
+				? "v0.7.3"
+				: "v0.34.1",
+		);
+	}
+
+	const clusterAddons = (
+		resourcePrefix: string,
+		acme?: ClusterAddonsArgs["acme"],
+	): ClusterAddons => {
+		const project = "atm-test-cluster";
+		const network = `projects/${project}/global/networks/net-test`;
+		const subnetwork = `https://www.googleapis.com/compute/v1/projects/${project}/regions/us-central1/subnetworks/sub-test`;
+		const nodeServiceAccount = `gke-node@${project}.iam.gserviceaccount.com`;
+		const cluster = new GkeCluster(`${resourcePrefix}-cluster`, {
+			channel: "REGULAR",
+			clusterName: "gke-test",
+			description: "test Kubernetes production cluster",
+			kmsKey: "gke-key_id",
+			labels: {},
+			location: "us-central1",
+			masterAuthorizedNetworks: [],
+			masterIpv4CidrBlock: "172.19.13.32/28",
+			network: {
+				network: { id: network, selfLink: network },
+				podRangeName: "gke-pods",
+				serviceRangeName: "gke-services",
+				subnetwork: { selfLink: subnetwork },
+			},
+			nodePools: [],
+			nodeServiceAccount,
+			nodeTags: [],
+			operators: { groups: ["sre@example.com"] },
+			project,
+			region: "us-central1",
+			resourcePrefix,
+		});
+		return new ClusterAddons(`${resourcePrefix}-addons`, {
+			acme,
+			cluster,
+			dnsName: "k8s.example.com.",
+			dnsProjectId: "atm-test-dns",
+			dnsZoneName: "k8s-example-com",
+			internalIngress: {
+				ingressClass: "nginx-internal",
+				privateDnsName: "internal.k8s.example.com.",
+				privateDnsProjectId: "atm-test-dns",
+				sourceRanges: ["10.0.0.0/8"],
+				subnetwork,
+			},
+			labels: {},
+			manifests,
+			masterIpv4CidrBlock: "172.19.13.32/28",
+			network,
+			nodeServiceAccount,
+			project,
+			region: "us-central1",
+			resourcePrefix,
+			txtOwnerId: "test",
+			workloadIdentities: [
+				{
+					projectId: pulumi.output("atm-test-dns"),
+					projectRoles: ["roles/dns.admin"],
+					workload: "cert-manager",
+					workloadNamespace: "cert-manager",
+				},
+				...["team-a", "team-b"].map(workloadNamespace => ({
+					projectId: pulumi.output(project),
+					projectRoles: ["roles/cloudsql.client"],
+					workload: "app",
+					workloadNamespace,
+				})),
+			],
+		});
+	};
+
+	it("creates instances with different prefixes in one program", async () => {
+		const start = mockResources.length;
+		const instances = ["blue", "green"].map(p =>
+			clusterAddons(p, { email: "certs@example.com" }),
+		);
+		await promiseOf(
+			pulumi.all(instances.map(a => a.ingressIpAddress.address)),
+		);
+		await settle();
+		const registered = mockResources.slice(start);
+		const configFiles = registered
+			.filter(r => r.type === "kubernetes:yaml:ConfigFile")
+			.map(r => r.name)
+			.sort();
+		assert.deepStrictEqual(configFiles, [
+			"blue-cert-manager",
+			"blue-external-dns",
+			"blue-external-dns-internal",
+			"blue-ingress-nginx",
+			"blue-ingress-nginx-internal",
+			"green-cert-manager",
+			"green-external-dns",
+			"green-external-dns-internal",
+			"green-ingress-nginx",
+			"green-ingress-nginx-internal",
+		]);
+		const urns = registered.map(r => `${r.type}::${r.name}`);
+		assert.deepStrictEqual(
+			urns.filter((u, i) => urns.indexOf(u) !== i),
+			[],
+		);
+	});
+
+	it("hashes the account IDs of service account names in several namespaces", async () => {
+		const start = mockResources.length;
+		const addons = clusterAddons("wi");
+		await promiseOf(addons.ingressIpAddress.address);
+		await settle();
+		const accountIds = mockResources
+			.slice(start)
+			.filter(r => r.type === "gcp:serviceAccount/account:Account")
+			.map(r => r.inputs.accountId);
+		assert.deepStrictEqual(accountIds, [
+			"sa-wi-cert-manager",
+			workloadIdentityAccountId("team-a", "app", true),
+			workloadIdentityAccountId("team-b", "app", true),
+		]);
+		assert.notStrictEqual(accountIds[1], accountIds[2]);
+	});
+
+	it("creates no cluster issuers without an ACME account", async () => {
+		const start = mockResources.length;
+		const addons = clusterAddons("plain");
+		await promiseOf(addons.ingressIpAddress.address);
+		await settle();
+		assert.strictEqual(addons.clusterIssuers, undefined);
+		assert.deepStrictEqual(
+			mockResources
+				.slice(start)
+				.filter(r => r.type.endsWith(":ClusterIssuer")),
+			[],
+		);
+	});
+});
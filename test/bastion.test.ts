@@ -0,0 +1,85 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from "assert";
+import { Bastion } from "../lib/bastion";
+import { promiseOf, resource, setMocks, settle } from "./mocks";
+
+describe("bastion", () => {
+	before(() => setMocks());
+
+	const bastion = () =>
+		new Bastion("bastion-test", {
+			clusterName: "gke-bastion-test",
+			description: "test Kubernetes production cluster",
+			labels: {},
+			machineType: "e2-micro",
+			members: ["group:sre@example.com"],
+			network: "projects/atm-test-cluster/global/networks/net-test",
+			networkProject: "atm-test-cluster",
+			project: "atm-test-cluster",
+			subnetwork:
+				"https://www.googleapis.com/compute/v1/projects/atm-test-cluster/regions/us-central1/subnetworks/sub-test",
+			zone: "us-central1-b",
+		});
+
+	it("creates a shielded VM without an external IP address", async () => {
+		const b = bastion();
+		assert.strictEqual(
+			await promiseOf(b.tunnelCommand),
+			"gcloud compute ssh gke-bastion-test-bastion --project atm-test-cluster --zone us-central1-b --tunnel-through-iap -- -N -D 1080",
+		);
+		await settle();
+		const instance = resource(
+			"gcp:compute/instance:Instance",
+			"gke-bastion-test-bastion",
+		).inputs;
+		assert.deepStrictEqual(instance.networkInterfaces, [
+			{
+				subnetwork:
+					"https://www.googleapis.com/compute/v1/projects/atm-test-cluster/regions/us-central1/subnetworks/sub-test",
+			},
+		]);
+		assert.deepStrictEqual(instance.shieldedInstanceConfig, {
+			enableIntegrityMonitoring: true,
+			enableSecureBoot: true,
+			enableVtpm: true,
+		});
+		assert.strictEqual(instance.metadata["enable-oslogin"], "TRUE");
+	});
+
+	it("allows the group to tunnel to the bastion", () => {
+		const firewall = resource(
+			"gcp:compute/firewall:Firewall",
+			"fw-iap-to-bastion",
+		).inputs;
+		assert.deepStrictEqual(firewall.sourceRanges, ["35.235.240.0/20"]);
+		assert.deepStrictEqual(firewall.allows, [
+			{ ports: ["22"], protocol: "tcp" },
+		]);
+		const tunnel = resource(
+			"gcp:iap/tunnelInstanceIAMMember:TunnelInstanceIAMMember",
+			"gke-bastion-test-bastion-sre-example-com-tunnel-member",
+		).inputs;
+		assert.strictEqual(tunnel.member, "group:sre@example.com");
+		assert.strictEqual(tunnel.role, "roles/iap.tunnelResourceAccessor");
+		const osLogin = resource(
+			"gcp:compute/instanceIAMMember:InstanceIAMMember",
+			"gke-bastion-test-bastion-sre-example-com-os-login-member",
+		).inputs;
+		assert.strictEqual(osLogin.role, "roles/compute.osLogin");
+	});
+});
@@ -0,0 +1,103 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from "assert";
+import { DnsProject } from "../lib/dns";
+import {
+	promiseOf,
+	resource,
+	resourcesOfType,
+	setMocks,
+	settle,
+} from "./mocks";
+
+describe("dns", () => {
+	before(() => setMocks());
+
+	it("uses an existing zone instead of creating one", async () => {
+		const dns = new DnsProject("dns-test", {
+			billingAccount: "000000-000000-000000",
+			dnsName: "adopted.example.com.",
+			existingZone: { name: "adopted-example-com", project: "atm-zones" },
+			labels: {},
+			projectId: "dns-test",
+		});
+		assert.strictEqual(await promiseOf(dns.zoneProject), "atm-zones");
+		assert.strictEqual(
+			await promiseOf(dns.zoneName),
+			"adopted-example-com",
+		);
+		assert.deepStrictEqual(await promiseOf(dns.nameServers), [
+			"ns-cloud-b1.googledomains.com.",
+		]);
+		assert.deepStrictEqual(await promiseOf(dns.dsRecords), [
+			"12345 8 2 0123456789ABCDEF",
+		]);
+		await settle();
+		assert.strictEqual(dns.zone, undefined);
+		for (const type of [
+			"gcp:dns/managedZone:ManagedZone",
+			"gcp:dns/recordSet:RecordSet",
+		]) {
+			assert.deepStrictEqual(
+				resourcesOfType(type).filter(r =>
+					r.name.startsWith("adopted-example-com"),
+				),
+				[],
+			);
+		}
+	});
+
+	it("delegates an existing zone from its parent zone", async () => {
+		const dns = new DnsProject("dns-delegated", {
+			billingAccount: "000000-000000-000000",
+			dnsName: "signed.example.com.",
+			existingZone: { name: "signed-example-com", project: "atm-zones" },
+			labels: {},
+			parentZone: { name: "example-com", project: "atm-parent" },
+			projectId: "dns-delegated",
+		});
+		await promiseOf(dns.dsRecords);
+		await settle();
+		assert.deepStrictEqual(
+			resource("gcp:dns/recordSet:RecordSet", "signed-example-com-ds")
+				.inputs.rrdatas,
+			["12345 8 2 0123456789ABCDEF"],
+		);
+	});
+
+	it("creates no DS record of an existing zone without DNSSEC", async () => {
+		const dns = new DnsProject("dns-unsigned", {
+			billingAccount: "000000-000000-000000",
+			dnsName: "unsigned.example.com.",
+			existingZone: {
+				name: "unsigned-example-com",
+				project: "atm-zones",
+			},
+			labels: {},
+			parentZone: { name: "example-com", project: "atm-parent" },
+			projectId: "dns-unsigned",
+		});
+		assert.deepStrictEqual(await promiseOf(dns.dsRecords), []);
+		await settle();
+		assert.deepStrictEqual(
+			resourcesOfType("gcp:dns/recordSet:RecordSet")
+				.map(r => r.name)
+				.filter(n => n.startsWith("unsigned-example-com")),
+			["unsigned-example-com-ns"],
+		);
+	});
+});
@@ -0,0 +1,259 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as pulumi from "@pulumi/pulumi";
+import * as assert from "assert";
+import {
+	simpleRoleName,
+	workloadIdentity,
+	workloadIdentityAccountId,
+	workloadIdentityTransformation,
+} from "../lib/iam";
+import { promiseOf, resource, setMocks, settle } from "./mocks";
+
+describe("iam", () => {
+	describe("simpleRoleName", () => {
+		it("removes the roles prefix and periods", () => {
+			assert.strictEqual(simpleRoleName("roles/dns.admin"), "dns-admin");
+		});
+
+		it("lowercases the role", () => {
+			assert.strictEqual(
+				simpleRoleName("roles/monitoring.metricWriter"),
+				"monitoring-metricwriter",
+			);
+		});
+
+		it("leaves custom roles alone other than periods", () => {
+			assert.strictEqual(
+				simpleRoleName("projects/p/roles/custom.Role"),
+				"projects/p/roles/custom-role",
+			);
+		});
+	});
+
+	describe("workloadIdentityAccountId", () => {
+		it("prefixes the service account name", () => {
+			assert.strictEqual(
+				workloadIdentityAccountId("cert-manager", "cert-manager"),
+				"sa-wi-cert-manager",
+			);
+		});
+
+		it("keeps names shared by namespaces unique", () => {
+			const a = workloadIdentityAccountId("ns-a", "app", true);
+			const b = workloadIdentityAccountId("ns-b", "app", true);
+			assert.notStrictEqual(a, b);
+			for (const id of [a, b]) {
+				assert(/^sa-wi-app-[0-9a-f]{6}$/.test(id), id);
+			}
+		});
+
+		it("keeps long names unique", () => {
+			const a = workloadIdentityAccountId(
+				"ns",
+				"very-long-workload-name-alpha",
+			);
+			const b = workloadIdentityAccountId(
+				"ns",
+				"very-long-workload-name-bravo",
+			);
+			assert.notStrictEqual(a, b);
+			for (const id of [a, b]) {
+				assert(/^sa-wi-very-long-workloa-[0-9a-f]{6}$/.test(id), id);
+			}
+		});
+	});
+
+	describe("workloadIdentity", () => {
+		before(() => setMocks());
+
+		const wiTest = workloadIdentityAccountId("wi-test-ns", "wi-test");
+		const wiBind = workloadIdentityAccountId("wi-bind-ns", "wi-bind");
+
+		it("creates and links a workload identity service account", async () => {
+			const sa = workloadIdentity({
+				projectId: pulumi.output("wi-test-dns"),
+				projectRoles: ["roles/dns.admin", "roles/dns.reader"],
+				workload: "wi-test",
+				workloadNamespace: "wi-test-ns",
+				workloadProject: pulumi.output("wi-test-cluster"),
+			});
+			assert.strictEqual(
+				await promiseOf(sa.email),
+				`${wiTest}@wi-test-cluster.iam.gserviceaccount.com`,
+			);
+			await settle();
+
+			const account = resource(
+				"gcp:serviceAccount/account:Account",
+				wiTest,
+			).inputs;
+			assert.strictEqual(account.accountId, wiTest);
+			assert.strictEqual(account.project, "wi-test-cluster");
+			for (const role of ["dns-admin", "dns-reader"]) {
+				const member = resource(
+					"gcp:projects/iAMMember:IAMMember",
+					`${wiTest}-${role}-member`,
+				).inputs;
+				assert.strictEqual(member.project, "wi-test-dns");
+				assert.strictEqual(
+					member.member,
+					`serviceAccount:${wiTest}@wi-test-cluster.iam.gserviceaccount.com`,
+				);
+			}
+			const user = resource(
+				"gcp:serviceAccount/iAMMember:IAMMember",
+				`${wiTest}-workload-identity-user`,
+			).inputs;
+			assert.strictEqual(
+				user.member,
+				"serviceAccount:wi-test-cluster.svc.id.goog[wi-test-ns/wi-test]",
+			);
+			assert.strictEqual(user.role, "roles/iam.workloadIdentityUser");
+		});
+
+		it("binds roles in other projects and on resources", async () => {
+			const sa = workloadIdentity({
+				bindings: [
+					{
+						project: "dns",
+						projectId: pulumi.output("wi-bind-dns"),
+						role: "roles/dns.reader",
+					},
+					{
+						condition: {
+							expression:
+								'resource.name.startsWith("projects/_/buckets/backups/objects/wi-bind")',
+							title: "Own backups",
+						},
+						resource: { name: "backups", type: "bucket" },
+						role: "roles/storage.objectAdmin",
+					},
+					{
+						resource: {
+							name:
+								"projects/k/locations/global/keyRings/r/cryptoKeys/k",
+							type: "cryptoKey",
+						},
+						role: "roles/cloudkms.cryptoKeyEncrypterDecrypter",
+					},
+					{
+						resource: { name: "db-password", type: "secret" },
+						role: "roles/secretmanager.secretAccessor",
+					},
+					{
+						resource: { name: "events", type: "topic" },
+						role: "projects/wi-bind-cluster/roles/publisher",
+					},
+				],
+				projectId: pulumi.output("wi-bind-cluster"),
+				projectRoles: [],
+				workload: "wi-bind",
+				workloadNamespace: "wi-bind-ns",
+			});
+			await promiseOf(sa.email);
+			await settle();
+
+			const member = `serviceAccount:${wiBind}@wi-bind-cluster.iam.gserviceaccount.com`;
+			const project = resource(
+				"gcp:projects/iAMMember:IAMMember",
+				`${wiBind}-dns-dns-reader-member`,
+			).inputs;
+			assert.strictEqual(project.project, "wi-bind-dns");
+			assert.strictEqual(project.member, member);
+			const bucket = resource(
+				"gcp:storage/bucketIAMMember:BucketIAMMember",
+				`${wiBind}-bucket-backups-storage-objectadmin-own-backups-member`,
+			).inputs;
+			assert.strictEqual(bucket.bucket, "backups");
+			assert.strictEqual(bucket.condition.title, "Own backups");
+			const key = resource(
+				"gcp:kms/cryptoKeyIAMMember:CryptoKeyIAMMember",
+				`${wiBind}-cryptokey-projects-k-locations-global-keyrings-r-cryptokeys-k-cloudkms-cryptokeyencrypterdecrypter-member`,
+			).inputs;
+			assert.strictEqual(
+				key.cryptoKeyId,
+				"projects/k/locations/global/keyRings/r/cryptoKeys/k",
+			);
+			const secret = resource(
+				"gcp:secretmanager/secretIamMember:SecretIamMember",
+				`${wiBind}-secret-db-password-secretmanager-secretaccessor-member`,
+			).inputs;
+			assert.strictEqual(secret.project, "wi-bind-cluster");
+			assert.strictEqual(secret.secretId, "db-password");
+			const topic = resource(
+				"gcp:pubsub/topicIAMMember:TopicIAMMember",
+				`${wiBind}-topic-events-projects/wi-bind-cluster/roles/publisher-member`,
+			).inputs;
+			assert.strictEqual(topic.topic, "events");
+			assert.strictEqual(
+				topic.role,
+				"projects/wi-bind-cluster/roles/publisher",
+			);
+		});
+
+		it("uses the resource prefix", async () => {
+			const sa = workloadIdentity({
+				projectId: pulumi.output("wi-test-cluster"),
+				projectRoles: ["roles/storage.objectViewer"],
+				resourcePrefix: "canary",
+				workload: "wi-test",
+				workloadNamespace: "wi-test-ns",
+			});
+			await promiseOf(sa.email);
+			await settle();
+			resource("gcp:serviceAccount/account:Account", `canary-${wiTest}`);
+		});
+	});
+
+	describe("workloadIdentityTransformation", () => {
+		const serviceAccounts: any = {
+			"ns/app": { email: "sa-wi-app@p.iam.gserviceaccount.com" },
+		};
+		const transform = workloadIdentityTransformation(serviceAccounts);
+
+		it("annotates a matching service account", () => {
+			const spec: any = {
+				kind: "ServiceAccount",
+				metadata: { name: "app", namespace: "ns" },
+			};
+			transform(spec);
+			assert.deepStrictEqual(spec.metadata.annotations, {
+				"iam.gke.io/gcp-service-account":
+					"sa-wi-app@p.iam.gserviceaccount.com",
+			});
+		});
+
+		it("ignores a service account in another namespace", () => {
+			const spec: any = {
+				kind: "ServiceAccount",
+				metadata: { name: "app", namespace: "other" },
+			};
+			transform(spec);
+			assert.strictEqual(spec.metadata.annotations, undefined);
+		});
+
+		it("ignores other kinds", () => {
+			const spec: any = {
+				kind: "Deployment",
+				metadata: { name: "app", namespace: "ns" },
+			};
+			transform(spec);
+			assert.strictEqual(spec.metadata.annotations, undefined);
+		});
+	});
+});
@@ -0,0 +1,966 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as pulumi from "@pulumi/pulumi";
+import * as assert from "assert";
+import * as childProcess from "child_process";
+import * as publicip from "public-ip";
+import { workloadIdentityAccountId } from "../lib/iam";
+import {
+	promiseOf,
+	resource,
+	resourcesOfType,
+	setMocks,
+	settle,
+} from "./mocks";
+
+describe("index", function () {
+	this.timeout(20000);
+
+	const execFileSync = childProcess.execFileSync;
+	const v4 = publicip.v4;
+	let stack: typeof import("../index");
+	before(async () => {
+		setMocks({
+			"iac-gke:budgets": JSON.stringify({
+				amounts: { cluster: 500, dns: 10.5 },
+				notificationChannels: [
+					"projects/atm-test-cluster/notificationChannels/123",
+				],
+			}),
+			"iac-gke:dns": JSON.stringify({
+				parentZone: { name: "example-com", project: "atm-parent" },
+				privateZone: { dnsName: "internal.k8s.example.com." },
+			}),
+			"iac-gke:egressLockdown": JSON.stringify({
+				allowedCidrBlocks: [{ cidrBlock: "203.0.113.0/24" }],
+				enabled: true,
+			}),
+			"iac-gke:firewall": JSON.stringify([
+				{
+					name: "master-to-webhook",
+					ports: ["9443"],
+					sourceRanges: ["172.19.13.32/28"],
+				},
+			]),
+			"iac-gke:gke": JSON.stringify({
+				addons: { gcePersistentDiskCsiDriver: true },
+				autoscaling: {
+					autoProvisioning: true,
+					profile: "OPTIMIZE_UTILIZATION",
+					resourceLimits: [
+						{ maximum: 64, resourceType: "cpu" },
+						{ maximum: 256, resourceType: "memory" },
+					],
+				},
+				verticalPodAutoscaling: true,
+			}),
+			"iac-gke:internalIngress": JSON.stringify({ enabled: true }),
+			"iac-gke:kms": JSON.stringify({
+				protectionLevel: "HSM",
+				rotationDays: 30,
+			}),
+			"iac-gke:monitoring": JSON.stringify({
+				certificateHosts: ["app.k8s.example.com"],
+				notificationChannels: [
+					{ email: "oncall@example.com", name: "On call" },
+				],
+			}),
+			"iac-gke:nat": JSON.stringify({
+				addresses: 2,
+				logging: "ERRORS_ONLY",
+				minPortsPerVm: 128,
+				timeouts: { tcpEstablished: 600 },
+			}),
+			"iac-gke:projects": JSON.stringify({
+				folderId: "345678901234",
+				kms: { existing: true },
+			}),
+			"iac-gke:rbac": JSON.stringify({
+				bindings: [
+					{
+						name: "developers",
+						namespace: "dev",
+						role: "edit",
+						users: ["dev@example.com"],
+					},
+				],
+				securityGroup: "gke-security-groups@example.com",
+			}),
+			"iac-gke:tenants": JSON.stringify([
+				{
+					group: "payments@example.com",
+					name: "payments",
+					quota: { pods: "20" },
+					workloadIdentity: { roles: ["roles/cloudsql.client"] },
+				},
+			]),
+		});
+		(childProcess as any).execFileSync = (cmd: string, args: string[]) => {
+			assert.strictEqual(cmd, "gcloud");
+			assert.deepStrictEqual(args, ["config", "get-value", "account"]);
+			return "deployer@example.com\n";
+		};
+		(publicip as any).v4 = async () => "198.51.100.7";
+		stack = await import("../index");
+		await promiseOf(stack.cluster);
+		await settle();
+	});
+	after(() => {
+		(childProcess as any).execFileSync = execFileSync;
+		(publicip as any).v4 = v4;
+	});
+
+	describe("cluster", () => {
+		const cluster = () =>
+			resource("gcp:container/cluster:Cluster", "gke-atm-test").inputs;
+
+		it("has private nodes and a public endpoint", () => {
+			const pcc = cluster().privateClusterConfig;
+			assert.strictEqual(pcc.enablePrivateNodes, true);
+			assert.strictEqual(pcc.enablePrivateEndpoint, false);
+			assert.strictEqual(pcc.masterIpv4CidrBlock, "172.19.13.32/28");
+		});
+
+		it("has shielded nodes and no legacy authentication", () => {
+			const c = cluster();
+			assert.strictEqual(c.enableShieldedNodes, true);
+			assert.strictEqual(c.enableLegacyAbac, false);
+			assert.strictEqual(
+				c.masterAuth.clientCertificateConfig.issueClientCertificate,
+				false,
+			);
+		});
+
+		it("encrypts secrets with the KMS key", () => {
+			assert.deepStrictEqual(cluster().databaseEncryption, {
+				keyName: "gke-key_id",
+				state: "ENCRYPTED",
+			});
+		});
+
+		it("authorizes the deployer public IP address", () => {
+			assert.deepStrictEqual(
+				cluster().masterAuthorizedNetworksConfig.cidrBlocks,
+				[{ cidrBlock: "198.51.100.7/32", displayName: "deployer" }],
+			);
+		});
+
+		it("configures the addons and autoscaling", () => {
+			const c = cluster();
+			assert.deepStrictEqual(c.addonsConfig, {
+				cloudrunConfig: { disabled: true },
+				dnsCacheConfig: { enabled: true },
+				gcePersistentDiskCsiDriverConfig: { enabled: true },
+				horizontalPodAutoscaling: { disabled: false },
+				httpLoadBalancing: { disabled: true },
+				networkPolicyConfig: { disabled: false },
+			});
+			assert.deepStrictEqual(c.clusterAutoscaling, {
+				autoProvisioningDefaults: {
+					oauthScopes: [
+						"https://www.googleapis.com/auth/cloud-platform",
+						"https://www.googleapis.com/auth/userinfo.email",
+					],
+					serviceAccount:
+						"gke-atm-test-node-sa@atm-test-cluster.iam.gserviceaccount.com",
+				},
+				autoscalingProfile: "OPTIMIZE_UTILIZATION",
+				enabled: true,
+				resourceLimits: [
+					{ maximum: 64, resourceType: "cpu" },
+					{ maximum: 256, resourceType: "memory" },
+				],
+			});
+			assert.deepStrictEqual(c.verticalPodAutoscaling, { enabled: true });
+		});
+
+		it("enables workload identity", () => {
+			assert.strictEqual(
+				cluster().workloadIdentityConfig.identityNamespace,
+				"atm-test-cluster.svc.id.goog",
+			);
+		});
+	});
+
+	describe("node pool", () => {
+		const nodePool = () =>
+			resource("gcp:container/nodePool:NodePool", "wi-pool").inputs;
+
+		it("creates the default node pool", async () => {
+			assert.deepStrictEqual(
+				await promiseOf(stack.nodePools[0]),
+				"wi-pool",
+			);
+			const np = nodePool();
+			assert.deepStrictEqual(np.autoscaling, {
+				maxNodeCount: 3,
+				minNodeCount: 1,
+			});
+			assert.strictEqual(np.nodeConfig.machineType, "e2-standard-2");
+		});
+
+		it("uses shielded nodes and the GKE metadata server", () => {
+			const nc = nodePool().nodeConfig;
+			assert.deepStrictEqual(nc.shieldedInstanceConfig, {
+				enableIntegrityMonitoring: true,
+				enableSecureBoot: true,
+			});
+			assert.strictEqual(
+				nc.workloadMetadataConfig.nodeMetadata,
+				"GKE_METADATA_SERVER",
+			);
+			assert.strictEqual(
+				nc.serviceAccount,
+				"gke-atm-test-node-sa@atm-test-cluster.iam.gserviceaccount.com",
+			);
+		});
+
+		it("encrypts the boot disks with the boot disk key with node auto-provisioning", () => {
+			assert.strictEqual(
+				nodePool().nodeConfig.bootDiskKmsKey,
+				"gke-boot-disk-key_id",
+			);
+		});
+	});
+
+	describe("KMS", () => {
+		it("creates keys with the configured protection and rotation", () => {
+			for (const name of [
+				"gke-boot-disk-key",
+				"gke-key",
+				"gke-storage-key",
+			]) {
+				const key = resource("gcp:kms/cryptoKey:CryptoKey", name)
+					.inputs;
+				assert.strictEqual(key.rotationPeriod, "2592000s");
+				assert.deepStrictEqual(key.versionTemplate, {
+					algorithm: "GOOGLE_SYMMETRIC_ENCRYPTION",
+					protectionLevel: "HSM",
+				});
+			}
+		});
+
+		it("allows the service agents to use their keys", () => {
+			const members = (name: string) =>
+				JSON.parse(
+					resource(
+						"gcp:kms/cryptoKeyIAMPolicy:CryptoKeyIAMPolicy",
+						`${name}-iam-policy`,
+					).inputs.policyData,
+				).bindings[0].members;
+			assert.deepStrictEqual(members("gke-boot-disk-key"), [
+				"serviceAccount:service-123456789012@compute-system.iam.gserviceaccount.com",
+			]);
+			assert.deepStrictEqual(members("gke-storage-key"), [
+				"serviceAccount:service-123456789012@gs-project-accounts.iam.gserviceaccount.com",
+			]);
+		});
+
+		it("exports the key IDs", async () => {
+			assert.strictEqual(
+				await promiseOf(stack.kmsKeys.bootDisk),
+				"gke-boot-disk-key_id",
+			);
+			assert.strictEqual(
+				await promiseOf(stack.kmsKeys.secrets),
+				"gke-key_id",
+			);
+			assert.strictEqual(
+				await promiseOf(stack.kmsKeys.storage),
+				"gke-storage-key_id",
+			);
+		});
+	});
+
+	describe("IAM", () => {
+		it("grants the node service account minimal roles", () => {
+			const members = resourcesOfType(
+				"gcp:projects/iAMMember:IAMMember",
+			).filter(m => m.name.startsWith("atm-test-cluster-"));
+			assert.deepStrictEqual(members.map(m => m.inputs.role).sort(), [
+				"roles/logging.logWriter",
+				"roles/monitoring.metricWriter",
+				"roles/monitoring.viewer",
+			]);
+			for (const m of members) {
+				assert.strictEqual(
+					m.inputs.member,
+					"serviceAccount:gke-atm-test-node-sa@atm-test-cluster.iam.gserviceaccount.com",
+				);
+				assert.strictEqual(m.inputs.project, "atm-test-cluster");
+			}
+		});
+
+		it("allows the GKE service agent to use the KMS key", () => {
+			const policy = resource(
+				"gcp:kms/cryptoKeyIAMPolicy:CryptoKeyIAMPolicy",
+				"gke-key-iam-policy",
+			).inputs;
+			assert.deepStrictEqual(JSON.parse(policy.policyData), {
+				bindings: [
+					{
+						members: [
+							"serviceAccount:service-123456789012@container-engine-robot.iam.gserviceaccount.com",
+						],
+						role: "roles/cloudkms.cryptoKeyEncrypterDecrypter",
+					},
+				],
+			});
+		});
+
+		it("lets cert-manager and external-dns manage DNS", () => {
+			for (const workload of ["cert-manager", "external-dns"]) {
+				const accountId = workloadIdentityAccountId(workload, workload);
+				const member = resource(
+					"gcp:projects/iAMMember:IAMMember",
+					`${accountId}-dns-admin-member`,
+				).inputs;
+				assert.deepStrictEqual(member, {
+					member: `serviceAccount:${accountId}@atm-test-cluster.iam.gserviceaccount.com`,
+					project: "atm-test-dns",
+					role: "roles/dns.admin",
+				});
+			}
+		});
+
+		it("binds the user to the cluster-admin role by default", () => {
+			const binding = resource(
+				"kubernetes:rbac.authorization.k8s.io/v1:ClusterRoleBinding",
+				"atomist-admin-cluster-role-binding",
+			).inputs;
+			assert.strictEqual(binding.roleRef.name, "cluster-admin");
+			assert.strictEqual(
+				binding.subjects[0].name,
+				"deployer@example.com",
+			);
+		});
+	});
+
+	it("creates the configured role bindings", () => {
+		const binding = resource(
+			"kubernetes:rbac.authorization.k8s.io/v1:RoleBinding",
+			"dev/developers",
+		).inputs;
+		assert.deepStrictEqual(binding.metadata, {
+			name: "developers",
+			namespace: "dev",
+		});
+		assert.strictEqual(binding.roleRef.name, "edit");
+		assert.deepStrictEqual(binding.subjects, [
+			{
+				apiGroup: "rbac.authorization.k8s.io",
+				kind: "User",
+				name: "dev@example.com",
+			},
+		]);
+	});
+
+	describe("firewall", () => {
+		const firewall = (name: string) =>
+			resource("gcp:compute/firewall:Firewall", name).inputs;
+
+		it("creates the configured rules for the nodes", () => {
+			const rule = firewall("fw-master-to-webhook");
+			assert.deepStrictEqual(rule.allows, [
+				{ ports: ["9443"], protocol: "tcp" },
+			]);
+			assert.strictEqual(rule.direction, "INGRESS");
+			assert.strictEqual(rule.priority, 1000);
+			assert.deepStrictEqual(rule.sourceRanges, ["172.19.13.32/28"]);
+			assert.deepStrictEqual(rule.targetServiceAccounts, [
+				"gke-atm-test-node-sa@atm-test-cluster.iam.gserviceaccount.com",
+			]);
+		});
+
+		it("locks down egress", () => {
+			const deny = firewall("fw-egress-deny-all");
+			assert.deepStrictEqual(deny.denies, [{ protocol: "all" }]);
+			assert.strictEqual(deny.direction, "EGRESS");
+			assert.strictEqual(deny.priority, 65534);
+			assert.deepStrictEqual(
+				firewall("fw-egress-allow-google-apis").destinationRanges,
+				["199.36.153.8/30"],
+			);
+			assert.deepStrictEqual(
+				firewall("fw-egress-allow-cluster").destinationRanges,
+				[
+					"10.0.0.0/22",
+					"10.12.0.0/14",
+					"10.0.16.0/20",
+					"172.19.13.32/28",
+				],
+			);
+			assert.deepStrictEqual(
+				firewall("fw-egress-allow-list").destinationRanges,
+				["203.0.113.0/24"],
+			);
+			const cname = resource(
+				"gcp:dns/recordSet:RecordSet",
+				"googleapis-com-private-google-access-cname",
+			).inputs;
+			assert.strictEqual(cname.name, "*.googleapis.com.");
+			assert.deepStrictEqual(cname.rrdatas, ["private.googleapis.com."]);
+		});
+	});
+
+	describe("NAT", () => {
+		it("uses reserved static egress addresses", async () => {
+			const nat = resource(
+				"gcp:compute/routerNat:RouterNat",
+				"nat-config",
+			).inputs;
+			assert.strictEqual(nat.natIpAllocateOption, "MANUAL_ONLY");
+			assert.deepStrictEqual(
+				nat.natIps,
+				[0, 1].map(
+					i =>
+						`https://www.googleapis.com/compute/v1/projects/atm-test-cluster/regions/us-central1/addresses/nat-address-${i}`,
+				),
+			);
+			assert.deepStrictEqual(nat.logConfig, {
+				enable: true,
+				filter: "ERRORS_ONLY",
+			});
+			assert.strictEqual(nat.minPortsPerVm, 128);
+			assert.strictEqual(nat.tcpEstablishedIdleTimeoutSec, 600);
+			assert.strictEqual(nat.udpIdleTimeoutSec, undefined);
+			assert.deepStrictEqual(
+				await Promise.all(stack.natIps.map(promiseOf)),
+				["203.0.113.2", "203.0.113.2"],
+			);
+		});
+	});
+
+	describe("DNS", () => {
+		it("delegates the zone from the parent zone", () => {
+			const ns = resource(
+				"gcp:dns/recordSet:RecordSet",
+				"k8s-example-com-ns",
+			).inputs;
+			assert.strictEqual(ns.managedZone, "example-com");
+			assert.strictEqual(ns.name, "k8s.example.com.");
+			assert.strictEqual(ns.project, "atm-parent");
+			assert.deepStrictEqual(ns.rrdatas, [
+				"ns-cloud-a1.googledomains.com.",
+			]);
+			const ds = resource(
+				"gcp:dns/recordSet:RecordSet",
+				"k8s-example-com-ds",
+			).inputs;
+			assert.strictEqual(ds.type, "DS");
+			assert.deepStrictEqual(ds.rrdatas, ["12345 8 2 0123456789ABCDEF"]);
+		});
+
+		it("attaches the private zone to the cluster network", () => {
+			const zone = resource(
+				"gcp:dns/managedZone:ManagedZone",
+				"internal-k8s-example-com-private-zone",
+			).inputs;
+			assert.strictEqual(zone.dnsName, "internal.k8s.example.com.");
+			assert.strictEqual(zone.visibility, "private");
+			assert.deepStrictEqual(zone.privateVisibilityConfig, {
+				networks: [{ networkUrl: "net-atm-test_id" }],
+			});
+		});
+	});
+
+	describe("projects", () => {
+		it("creates the cluster and DNS projects in the folder", () => {
+			const projects = resourcesOfType(
+				"gcp:organizations/project:Project",
+			).filter(p => p.name.startsWith("atm-test-"));
+			assert.deepStrictEqual(
+				projects.map(p => p.name),
+				["atm-test-cluster", "atm-test-dns"],
+			);
+			for (const p of projects) {
+				assert.strictEqual(p.inputs.folderId, "345678901234");
+				assert.strictEqual(p.inputs.orgId, undefined);
+			}
+		});
+
+		it("enables the API of the existing KMS project", () => {
+			const service = resource(
+				"gcp:projects/service:Service",
+				"atm-test-kms-cloudkms-service",
+			).inputs;
+			assert.strictEqual(service.project, "atm-test-kms");
+			assert.strictEqual(service.disableOnDestroy, false);
+		});
+
+		it("lets destroying the created cluster project disable its APIs", () => {
+			const service = resource(
+				"gcp:projects/service:Service",
+				"monitoring-service",
+			).inputs;
+			assert.strictEqual(service.disableOnDestroy, undefined);
+		});
+	});
+
+	describe("budgets", () => {
+		it("creates budgets for the configured projects", () => {
+			const budgets = resourcesOfType("gcp:billing/budget:Budget");
+			assert.deepStrictEqual(
+				budgets.map(b => b.name),
+				["cluster-budget", "dns-budget"],
+			);
+			const cluster = budgets[0].inputs;
+			assert.deepStrictEqual(cluster.budgetFilter, {
+				projects: ["projects/123456789012"],
+			});
+			assert.deepStrictEqual(cluster.thresholdRules, [
+				{ thresholdPercent: 0.5 },
+				{ thresholdPercent: 0.9 },
+				{ thresholdPercent: 1 },
+			]);
+			assert.deepStrictEqual(cluster.allUpdatesRule, {
+				monitoringNotificationChannels: [
+					"projects/atm-test-cluster/notificationChannels/123",
+				],
+			});
+			assert.strictEqual(
+				cluster.displayName,
+				"atm-test production cluster (deployer)",
+			);
+			assert.deepStrictEqual(budgets[1].inputs.amount, {
+				specifiedAmount: { nanos: 500000000, units: "10" },
+			});
+		});
+	});
+
+	describe("monitoring", () => {
+		const policy = (name: string) =>
+			resource("gcp:monitoring/alertPolicy:AlertPolicy", name).inputs;
+
+		it("creates the notification channels", () => {
+			const channel = resource(
+				"gcp:monitoring/notificationChannel:NotificationChannel",
+				"on-call-channel",
+			).inputs;
+			assert.strictEqual(channel.type, "email");
+			assert.deepStrictEqual(channel.labels, {
+				email_address: "oncall@example.com",
+			});
+		});
+
+		it("creates the baseline alert policies", () => {
+			assert.deepStrictEqual(
+				resourcesOfType("gcp:monitoring/alertPolicy:AlertPolicy")
+					.map(p => p.name)
+					.sort(),
+				[
+					"addon-crashloop-alert",
+					"certificate-expiry-alert",
+					"ingress-uptime-alert",
+					"nat-port-exhaustion-alert",
+					"node-not-ready-alert",
+					"node-pool-max-alert",
+				],
+			);
+			assert.deepStrictEqual(
+				policy("node-pool-max-alert").notificationChannels,
+				["projects/atm-test-cluster/notificationChannels/1"],
+			);
+		});
+
+		it("alerts when a node pool reaches its maximum size", () => {
+			const condition = policy("node-pool-max-alert").conditions[0]
+				.conditionThreshold;
+			assert.strictEqual(condition.thresholdValue, 8.5);
+			assert(/gke-nodepool" = "wi-pool"/.test(condition.filter));
+		});
+
+		it("watches the addon namespaces", () => {
+			assert(
+				/namespace_name = one_of\("cert-manager", "external-dns", "ingress-nginx", "external-dns-internal", "ingress-nginx-internal"\)/.test(
+					policy("addon-crashloop-alert").conditions[0]
+						.conditionThreshold.filter,
+				),
+			);
+		});
+
+		it("checks the ingress load balancer IP address", () => {
+			const check = resource(
+				"gcp:monitoring/uptimeCheckConfig:UptimeCheckConfig",
+				"ingress-uptime-check",
+			).inputs;
+			assert.strictEqual(
+				check.monitoredResource.labels.host,
+				"203.0.113.2",
+			);
+			assert(
+				/check_id = "ingress-uptime-check-id"/.test(
+					policy("ingress-uptime-alert").conditions[0]
+						.conditionThreshold.filter,
+				),
+			);
+		});
+
+		it("alerts on NAT port exhaustion", () => {
+			assert(
+				/gateway_name = "nat-config"/.test(
+					policy("nat-port-exhaustion-alert").conditions[0]
+						.conditionThreshold.filter,
+				),
+			);
+		});
+	});
+
+	describe("tenants", () => {
+		it("creates the namespace with a quota and limits", () => {
+			assert.deepStrictEqual(
+				resource("kubernetes:core/v1:Namespace", "payments").inputs
+					.metadata,
+				{ labels: { tenant: "payments" }, name: "payments" },
+			);
+			const quota = resource(
+				"kubernetes:core/v1:ResourceQuota",
+				"payments/tenant-quota",
+			).inputs;
+			assert.strictEqual(quota.spec.hard.pods, "20");
+			assert.strictEqual(quota.spec.hard["requests.cpu"], "4");
+			const limits = resource(
+				"kubernetes:core/v1:LimitRange",
+				"payments/tenant-limits",
+			).inputs;
+			assert.deepStrictEqual(limits.spec.limits[0].default, {
+				cpu: "500m",
+				memory: "512Mi",
+			});
+		});
+
+		it("denies traffic except from ingress-nginx and to DNS", () => {
+			const policy = resource(
+				"kubernetes:networking.k8s.io/v1:NetworkPolicy",
+				"payments/default-deny",
+			).inputs;
+			assert.deepStrictEqual(policy.spec.podSelector, {});
+			assert.deepStrictEqual(policy.spec.policyTypes, [
+				"Egress",
+				"Ingress",
+			]);
+			assert.deepStrictEqual(policy.spec.ingress[0].from, [
+				{
+					namespaceSelector: {
+						matchLabels: {
+							"app.kubernetes.io/name": "ingress-nginx",
+						},
+					},
+				},
+			]);
+			assert.deepStrictEqual(
+				policy.spec.egress[0].ports.map((p: any) => p.port),
+				[53, 53],
+			);
+		});
+
+		it("allows workload identity to reach the metadata server and Google APIs", () => {
+			const policy = resource(
+				"kubernetes:networking.k8s.io/v1:NetworkPolicy",
+				"payments/default-deny",
+			).inputs;
+			assert.deepStrictEqual(policy.spec.egress.slice(1), [
+				{
+					ports: [{ port: 988, protocol: "TCP" }],
+					to: [{ ipBlock: { cidr: "169.254.169.252/32" } }],
+				},
+				{
+					ports: [{ port: 80, protocol: "TCP" }],
+					to: [{ ipBlock: { cidr: "169.254.169.254/32" } }],
+				},
+				{
+					ports: [{ port: 443, protocol: "TCP" }],
+					to: [{ ipBlock: { cidr: "199.36.153.8/30" } }],
+				},
+			]);
+		});
+
+		it("binds the team group", () => {
+			const binding = resource(
+				"kubernetes:rbac.authorization.k8s.io/v1:RoleBinding",
+				"payments/tenant-team",
+			).inputs;
+			assert.strictEqual(binding.roleRef.name, "edit");
+			assert.deepStrictEqual(binding.subjects, [
+				{
+					apiGroup: "rbac.authorization.k8s.io",
+					kind: "Group",
+					name: "payments@example.com",
+				},
+			]);
+		});
+
+		it("creates the workload identity service account", () => {
+			const sa = resource(
+				"kubernetes:core/v1:ServiceAccount",
+				"payments/payments",
+			).inputs;
+			assert.strictEqual(
+				sa.metadata.annotations["iam.gke.io/gcp-service-account"],
+				`${workloadIdentityAccountId(
+					"payments",
+					"payments",
+				)}@atm-test-cluster.iam.gserviceaccount.com`,
+			);
+		});
+	});
+
+	describe("ingress-nginx", () => {
+		it("uses the reserved load balancer IP address", () => {
+			const service = resource(
+				"kubernetes:core/v1:Service",
+				"ingress-nginx/ingress-nginx-controller",
+			).inputs;
+			assert.strictEqual(service.spec.loadBalancerIP, "203.0.113.2");
+		});
+	});
+
+	describe("internal ingress-nginx", () => {
+		it("reserves an internal load balancer IP address", () => {
+			const address = resource(
+				"gcp:compute/address:Address",
+				"nginx-ingress-internal-ip-address",
+			).inputs;
+			assert.strictEqual(address.addressType, "INTERNAL");
+		});
+
+		it("allows the source ranges and health checks to the nodes", () => {
+			const firewall = resource(
+				"gcp:compute/firewall:Firewall",
+				"fw-internal-ingress-nginx",
+			).inputs;
+			assert.deepStrictEqual(firewall.sourceRanges, [
+				"10.0.0.0/22",
+				"130.211.0.0/22",
+				"35.191.0.0/16",
+			]);
+			assert.deepStrictEqual(firewall.allows, [
+				{ ports: ["80", "443"], protocol: "tcp" },
+			]);
+		});
+
+		it("exposes the controller on an internal load balancer", () => {
+			const service = resource(
+				"kubernetes:core/v1:Service",
+				"ingress-nginx-internal/ingress-nginx-controller",
+			).inputs;
+			assert.strictEqual(
+				service.metadata.annotations[
+					"networking.gke.io/load-balancer-type"
+				],
+				"Internal",
+			);
+			assert.strictEqual(service.spec.loadBalancerIP, "203.0.113.2");
+			assert.deepStrictEqual(service.spec.loadBalancerSourceRanges, [
+				"10.0.0.0/22",
+			]);
+		});
+
+		it("renames the cluster-scoped objects", () => {
+			const binding = resource(
+				"kubernetes:rbac.authorization.k8s.io/v1:ClusterRoleBinding",
+				"ingress-nginx-internal",
+			).inputs;
+			assert.strictEqual(binding.roleRef.name, "ingress-nginx-internal");
+			assert.deepStrictEqual(binding.subjects, [
+				{
+					kind: "ServiceAccount",
+					name: "ingress-nginx-internal",
+					namespace: "ingress-nginx-internal",
+				},
+			]);
+		});
+
+		it("serves its own ingress class", () => {
+			const deployment = resource(
+				"kubernetes:apps/v1:Deployment",
+				"ingress-nginx-internal/ingress-nginx-controller",
+			).inputs;
+			const spec = deployment.spec.template.spec;
+			assert(
+				spec.containers[0].args.includes(
+					"--ingress-class=nginx-internal",
+				),
+			);
+			assert.strictEqual(
+				spec.serviceAccountName,
+				"ingress-nginx-internal",
+			);
+		});
+
+		it("can acquire its leader election lease", () => {
+			const role = resource(
+				"kubernetes:rbac.authorization.k8s.io/v1:Role",
+				"ingress-nginx-internal/ingress-nginx",
+			).inputs;
+			assert.deepStrictEqual(role.rules[0].resourceNames, [
+				"ingress-controller-leader-nginx-internal",
+			]);
+			const upstream = resource(
+				"kubernetes:rbac.authorization.k8s.io/v1:Role",
+				"ingress-nginx/ingress-nginx",
+			).inputs;
+			assert.deepStrictEqual(upstream.rules[0].resourceNames, [
+				"ingress-controller-leader-nginx",
+			]);
+		});
+	});
+
+	describe("cert-manager", () => {
+		it("creates Let's Encrypt cluster issuers using Cloud DNS", () => {
+			for (const env of ["production", "staging"]) {
+				const issuer = resource(
+					"kubernetes:cert-manager.io/v1beta1:ClusterIssuer",
+					`letsencrypt-${env}`,
+				).inputs;
+				assert.strictEqual(issuer.spec.acme.email, "certs@example.com");
+				assert.deepStrictEqual(issuer.spec.acme.solvers, [
+					{
+						dns01: {
+							cloudDNS: {
+								hostedZoneName: "k8s-example-com-zone",
+								project: "atm-test-dns",
+							},
+						},
+						selector: { dnsZones: ["k8s.example.com"] },
+					},
+				]);
+			}
+		});
+
+		it("annotates the service account with the GCP service account", () => {
+			const sa = resource(
+				"kubernetes:core/v1:ServiceAccount",
+				"cert-manager/cert-manager",
+			).inputs;
+			assert.strictEqual(
+				sa.metadata.annotations["iam.gke.io/gcp-service-account"],
+				`${workloadIdentityAccountId(
+					"cert-manager",
+					"cert-manager",
+				)}@atm-test-cluster.iam.gserviceaccount.com`,
+			);
+		});
+	});
+
+	describe("external-dns", () => {
+		it("annotates the service account with the GCP service account", () => {
+			const sa = resource(
+				"kubernetes:core/v1:ServiceAccount",
+				"external-dns/external-dns",
+			).inputs;
+			assert.strictEqual(
+				sa.metadata.annotations["iam.gke.io/gcp-service-account"],
+				`${workloadIdentityAccountId(
+					"external-dns",
+					"external-dns",
+				)}@atm-test-cluster.iam.gserviceaccount.com`,
+			);
+		});
+
+		it("rewrites the arguments from the configuration", () => {
+			const deployment = resource(
+				"kubernetes:apps/v1:Deployment",
+				"external-dns/external-dns",
+			).inputs;
+			assert.deepStrictEqual(
+				deployment.spec.template.spec.containers[0].args,
+				[
+					"--source=ingress",
+					"--domain-filter=k8s.example.com",
+					"--provider=google",
+					"--google-project=atm-test-dns",
+					"--registry=txt",
+					"--txt-owner-id=atm-test",
+					"--annotation-filter=kubernetes.io/ingress.class notin (nginx-internal)",
+				],
+			);
+		});
+
+		it("publishes internal ingresses to the private zone", () => {
+			const sa = resource(
+				"kubernetes:core/v1:ServiceAccount",
+				"external-dns-internal/external-dns-internal",
+			).inputs;
+			assert.strictEqual(
+				sa.metadata.annotations["iam.gke.io/gcp-service-account"],
+				`${workloadIdentityAccountId(
+					"external-dns-internal",
+					"external-dns-internal",
+				)}@atm-test-cluster.iam.gserviceaccount.com`,
+			);
+			const deployment = resource(
+				"kubernetes:apps/v1:Deployment",
+				"external-dns-internal/external-dns",
+			).inputs;
+			assert.deepStrictEqual(
+				deployment.spec.template.spec.containers[0].args,
+				[
+					"--source=ingress",
+					"--domain-filter=internal.k8s.example.com",
+					"--provider=google",
+					"--google-project=atm-test-dns",
+					"--registry=txt",
+					"--txt-owner-id=atm-test",
+					"--annotation-filter=kubernetes.io/ingress.class=nginx-internal",
+				],
+			);
+		});
+	});
+
+	it("configures the Kubernetes provider with the exec plugin", () => {
+		const provider = resource("pulumi:providers:kubernetes", "k8s-provider")
+			.inputs;
+		// secret inputs are recorded wrapped
+		const kubeconfig: string = provider.kubeconfig.value;
+		assert(/command: gke-gcloud-auth-plugin/.test(kubeconfig));
+		assert(!/auth-provider/.test(kubeconfig));
+	});
+
+	it("exports the kubeconfig as a secret", async () => {
+		assert.strictEqual(await pulumi.isSecret(stack.kubeconfig), true);
+		assert(
+			/current-context: gke_atm-test-cluster_us-central1_gke-atm-test/.test(
+				await promiseOf(stack.kubeconfig),
+			),
+		);
+	});
+
+	it("exports the stack outputs", async () => {
+		assert.strictEqual(
+			await promiseOf(stack.clusterIssuers!.production),
+			"letsencrypt-production",
+		);
+		assert.strictEqual(
+			await promiseOf(stack.clusterIssuers!.staging),
+			"letsencrypt-staging",
+		);
+		assert.strictEqual(await promiseOf(stack.project), "atm-test-cluster");
+		assert.deepStrictEqual(await promiseOf(stack.dnsNameservers), [
+			"ns-cloud-a1.googledomains.com.",
+		]);
+		assert.deepStrictEqual(await promiseOf(stack.dnsDsRecords), [
+			"12345 8 2 0123456789ABCDEF",
+		]);
+		assert.deepStrictEqual(stack.addressPlan, {
+			masterIpv4CidrBlock: "172.19.13.32/28",
+			podsCidrBlock: "10.12.0.0/14",
+			servicesCidrBlock: "10.0.16.0/20",
+			subnetCidrBlock: "10.0.0.0/22",
+		});
+	});
+});
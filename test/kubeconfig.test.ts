@@ -0,0 +1,84 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from "assert";
+import * as yaml from "js-yaml";
+import { kubeconfig } from "../lib/kubeconfig";
+
+describe("kubeconfig", () => {
+	const cluster = {
+		clusterCaCertificate: "Q0EK",
+		clusterName: "gke-test",
+		endpoint: "203.0.113.1",
+		location: "us-central1",
+		projectId: "atm-test-cluster",
+	};
+
+	it("uses the gke-gcloud-auth-plugin", () => {
+		const config: any = yaml.safeLoad(kubeconfig(cluster));
+		const context = "gke_atm-test-cluster_us-central1_gke-test";
+		assert.strictEqual(config["current-context"], context);
+		assert.deepStrictEqual(config.clusters, [
+			{
+				cluster: {
+					"certificate-authority-data": "Q0EK",
+					server: "https://203.0.113.1",
+				},
+				name: context,
+			},
+		]);
+		const user = config.users[0];
+		assert.strictEqual(user.name, context);
+		assert.strictEqual(user.user.exec.command, "gke-gcloud-auth-plugin");
+		assert.strictEqual(
+			user.user.exec.apiVersion,
+			"client.authentication.k8s.io/v1beta1",
+		);
+		assert.strictEqual(user.user.exec.env, null);
+		assert.strictEqual(user.user["auth-provider"], undefined);
+	});
+
+	it("impersonates the service account", () => {
+		const config: any = yaml.safeLoad(
+			kubeconfig({
+				...cluster,
+				impersonateServiceAccount:
+					"deployer@atm-test-cluster.iam.gserviceaccount.com",
+			}),
+		);
+		assert.deepStrictEqual(config.users[0].user.exec.env, [
+			{
+				name: "CLOUDSDK_AUTH_IMPERSONATE_SERVICE_ACCOUNT",
+				value: "deployer@atm-test-cluster.iam.gserviceaccount.com",
+			},
+		]);
+	});
+
+	it("reaches the endpoint through the proxy", () => {
+		const config: any = yaml.safeLoad(
+			kubeconfig({
+				...cluster,
+				endpoint: "172.19.13.34",
+				proxyUrl: "socks5://localhost:1080",
+			}),
+		);
+		assert.deepStrictEqual(config.clusters[0].cluster, {
+			"certificate-authority-data": "Q0EK",
+			"proxy-url": "socks5://localhost:1080",
+			server: "https://172.19.13.34",
+		});
+	});
+});
@@ -0,0 +1,178 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as pulumi from "@pulumi/pulumi";
+import * as yaml from "js-yaml";
+import * as path from "path";
+
+/** Resource registered with the Pulumi runtime mocks. */
+export interface MockResource {
+	type: string;
+	name: string;
+	inputs: any;
+}
+
+/** Addon manifests used by the tests. */
+export const manifestDirectory = path.join(__dirname, "fixtures", "k8s");
+
+/** Resources registered since the mocks were set. */
+export const mockResources: MockResource[] = [];
+
+/**
+ * Provide plausible values for the output properties the program uses
+ * that are computed by GCP.
+ */
+function mockState(type: string, name: string, inputs: any): any {
+	switch (type) {
+		case "gcp:container/cluster:Cluster":
+			return {
+				endpoint: "203.0.113.1",
+				masterAuth: { clusterCaCertificate: "Q0EK" },
+			};
+		case "gcp:compute/address:Address":
+			return {
+				address: "203.0.113.2",
+				selfLink: `https://www.googleapis.com/compute/v1/projects/${inputs.project}/regions/${inputs.region}/addresses/${name}`,
+			};
+		case "gcp:dns/managedZone:ManagedZone":
+			return { nameServers: ["ns-cloud-a1.googledomains.com."] };
+		case "gcp:monitoring/notificationChannel:NotificationChannel":
+			return {
+				name: `projects/${inputs.project}/notificationChannels/1`,
+			};
+		case "gcp:monitoring/uptimeCheckConfig:UptimeCheckConfig":
+			return { uptimeCheckId: `${name}-id` };
+		case "gcp:organizations/project:Project":
+			return { number: "123456789012" };
+		case "gcp:serviceAccount/account:Account":
+			return {
+				email: `${inputs.accountId}@${inputs.project}.iam.gserviceaccount.com`,
+			};
+		default:
+			return {};
+	}
+}
+
+/** Provide plausible results of the provider functions the program calls. */
+function mockCall(token: string, args: any): any {
+	switch (token) {
+		case "gcp:compute/getSubnetwork:getSubnetwork":
+			return {
+				...args,
+				ipCidrRange: "10.0.0.0/22",
+				network: `https://www.googleapis.com/compute/v1/projects/${args.project}/global/networks/shared`,
+				secondaryIpRanges: [
+					{ ipCidrRange: "10.12.0.0/14", rangeName: "gke-pods" },
+					{ ipCidrRange: "10.0.16.0/20", rangeName: "gke-services" },
+				],
+				selfLink: `https://www.googleapis.com/compute/v1/projects/${args.project}/regions/${args.region}/subnetworks/${args.name}`,
+			};
+		case "gcp:dns/getKeys:getKeys":
+			// zones named "unsigned-..." do not use DNSSEC
+			return {
+				...args,
+				keySigningKeys: args.managedZone.startsWith("unsigned-")
+					? []
+					: [
+							{
+								dsRecord: "12345 8 2 0123456789ABCDEF",
+								isActive: true,
+							},
+					  ],
+			};
+		case "gcp:dns/getManagedZone:getManagedZone":
+			return {
+				...args,
+				nameServers: ["ns-cloud-b1.googledomains.com."],
+			};
+		case "gcp:organizations/getProject:getProject":
+			return { ...args, number: "210987654321" };
+		case "gcp:storage/getProjectServiceAccount:getProjectServiceAccount":
+			return {
+				...args,
+				emailAddress:
+					"service-123456789012@gs-project-accounts.iam.gserviceaccount.com",
+			};
+		case "kubernetes:yaml:decode":
+			return { result: yaml.safeLoadAll(args.text) };
+		default:
+			return args;
+	}
+}
+
+/**
+ * Set the Pulumi runtime mocks, recording every resource in
+ * [[mockResources]], and set the stack configuration. Call this
+ * before importing any module that declares resources.
+ */
+export function setMocks(config: Record<string, string> = {}): void {
+	pulumi.runtime.setMocks(
+		{
+			call: mockCall,
+			newResource: (type: string, name: string, inputs: any) => {
+				mockResources.push({ type, name, inputs });
+				return {
+					id: `${name}_id`,
+					state: {
+						name,
+						...inputs,
+						...mockState(type, name, inputs),
+					},
+				};
+			},
+		},
+		"iac-gke",
+		"test",
+		false,
+	);
+	pulumi.runtime.setAllConfig({
+		"gcp:project": "atm-test-cluster",
+		"iac-gke:acme": JSON.stringify({ email: "certs@example.com" }),
+		"iac-gke:addons": JSON.stringify({ manifestDirectory }),
+		"iac-gke:billingAccount": "000000-000000-000000",
+		"iac-gke:dnsName": "k8s.example.com.",
+		...config,
+	});
+}
+
+/** Resolve the value of an output. */
+export function promiseOf<T>(output: pulumi.Output<T>): Promise<T> {
+	return new Promise(resolve => output.apply(resolve));
+}
+
+/**
+ * Wait for the resources declared so far to be registered with the
+ * mocks.
+ */
+export async function settle(): Promise<void> {
+	for (let i = 0; i < 10; i++) {
+		await new Promise(resolve => setTimeout(resolve, 10));
+	}
+}
+
+/** Return the registered resources of the provided type. */
+export function resourcesOfType(type: string): MockResource[] {
+	return mockResources.filter(r => r.type === type);
+}
+
+/** Return the registered resource with the provided type and name. */
+export function resource(type: string, name: string): MockResource {
+	const r = mockResources.find(m => m.type === type && m.name === name);
+	if (!r) {
+		throw new Error(`No ${type} resource named ${name}`);
+	}
+	return r;
+}
@@ -0,0 +1,47 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from "assert";
+import { ClusterMonitoring } from "../lib/monitoring";
+import { resource, setMocks, settle } from "./mocks";
+
+describe("monitoring", () => {
+	before(() => setMocks());
+
+	it("leaves the Monitoring API of an existing project enabled", async () => {
+		new ClusterMonitoring("adopted-monitoring", {
+			alertPolicies: false,
+			certificateExpiryDays: 14,
+			certificateHosts: [],
+			clusterName: "gke-adopted",
+			existingProject: true,
+			ingressIpAddress: "203.0.113.2",
+			labels: {},
+			namespaces: [],
+			nodePools: [],
+			notificationChannels: [],
+			project: "atm-adopted",
+			resourcePrefix: "adopted",
+		});
+		await settle();
+		const service = resource(
+			"gcp:projects/service:Service",
+			"adopted-monitoring-service",
+		).inputs;
+		assert.strictEqual(service.project, "atm-adopted");
+		assert.strictEqual(service.disableOnDestroy, false);
+	});
+});
@@ -0,0 +1,68 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from "assert";
+import { defaultAddressPlan } from "../lib/cidr";
+import { SharedVpcNetwork } from "../lib/network";
+import { promiseOf, resource, setMocks, settle } from "./mocks";
+
+describe("network", () => {
+	before(() => setMocks());
+
+	it("attaches to a Shared VPC subnetwork", async () => {
+		const network = new SharedVpcNetwork("shared-vpc-test", {
+			addressPlan: defaultAddressPlan,
+			cloudServicesAgent:
+				"serviceAccount:123456789012@cloudservices.gserviceaccount.com",
+			gkeServiceAgent:
+				"serviceAccount:service-123456789012@container-engine-robot.iam.gserviceaccount.com",
+			hostProject: "atm-host",
+			podRangeName: "gke-pods",
+			region: "us-central1",
+			resourcePrefix: "svpc",
+			serviceRangeName: "gke-services",
+			subnetwork: "gke",
+		});
+		assert.strictEqual(
+			await promiseOf(network.network.id),
+			"projects/atm-host/global/networks/shared",
+		);
+		assert.strictEqual(
+			await promiseOf(network.subnetwork.selfLink),
+			"https://www.googleapis.com/compute/v1/projects/atm-host/regions/us-central1/subnetworks/gke",
+		);
+		await settle();
+		for (const agent of ["cloudservices", "gke"]) {
+			const member = resource(
+				"gcp:compute/subnetworkIAMMember:SubnetworkIAMMember",
+				`svpc-shared-vpc-${agent}-compute-networkuser-member`,
+			).inputs;
+			assert.strictEqual(member.project, "atm-host");
+			assert.strictEqual(member.subnetwork, "gke");
+			assert.strictEqual(member.role, "roles/compute.networkUser");
+		}
+		const hostAgent = resource(
+			"gcp:projects/iAMMember:IAMMember",
+			"svpc-shared-vpc-gke-container-hostserviceagentuser-member",
+		).inputs;
+		assert.deepStrictEqual(hostAgent, {
+			member:
+				"serviceAccount:service-123456789012@container-engine-robot.iam.gserviceaccount.com",
+			project: "atm-host",
+			role: "roles/container.hostServiceAgentUser",
+		});
+	});
+});
@@ -0,0 +1,60 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from "assert";
+import { rbacSubjects } from "../lib/rbac";
+
+describe("rbac", () => {
+	describe("rbacSubjects", () => {
+		it("returns sorted subjects without duplicates", () => {
+			assert.deepStrictEqual(
+				rbacSubjects({
+					groups: ["ops@example.com"],
+					serviceAccounts: [
+						"ci@atm-test-cluster.iam.gserviceaccount.com",
+					],
+					users: [
+						"jane@example.com",
+						"bob@example.com",
+						"jane@example.com",
+					],
+				}),
+				[
+					{
+						apiGroup: "rbac.authorization.k8s.io",
+						kind: "Group",
+						name: "ops@example.com",
+					},
+					{
+						apiGroup: "rbac.authorization.k8s.io",
+						kind: "User",
+						name: "bob@example.com",
+					},
+					{
+						apiGroup: "rbac.authorization.k8s.io",
+						kind: "User",
+						name: "ci@atm-test-cluster.iam.gserviceaccount.com",
+					},
+					{
+						apiGroup: "rbac.authorization.k8s.io",
+						kind: "User",
+						name: "jane@example.com",
+					},
+				],
+			);
+		});
+	});
+});
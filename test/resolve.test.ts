@@ -0,0 +1,134 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from "assert";
+import {
+	environmentVariables,
+	mergeCidrBlocks,
+	parseCidrBlocks,
+	resolveValue,
+} from "../lib/resolve";
+import { ConfigProblems, ConfigValidationError } from "../lib/validate";
+
+describe("resolve", () => {
+	describe("resolveValue", () => {
+		const env = "IAC_GKE_TEST_VALUE";
+		const resolution = {
+			config: undefined as string | undefined,
+			env,
+			key: "test",
+			lookup: () => "lookup",
+			parse: (v: string) => `parsed ${v}`,
+			strict: false,
+		};
+		afterEach(() => {
+			delete process.env[env];
+		});
+
+		it("prefers the configured value", () => {
+			process.env[env] = "env";
+			assert.strictEqual(
+				resolveValue({ ...resolution, config: "config" }),
+				"config",
+			);
+		});
+
+		it("uses the environment variable before looking up", () => {
+			process.env[env] = "env";
+			assert.strictEqual(resolveValue(resolution), "parsed env");
+		});
+
+		it("looks up the value", () => {
+			assert.strictEqual(resolveValue(resolution), "lookup");
+		});
+
+		it("refuses to look up the value in strict mode", () => {
+			assert.throws(
+				() =>
+					resolveValue({
+						...resolution,
+						lookup: () => assert.fail("looked up"),
+						strict: true,
+					}),
+				(e: ConfigValidationError) =>
+					e instanceof ConfigValidationError &&
+					e.problems[0].path === "test" &&
+					e.message.includes(env),
+			);
+		});
+
+		it("collects the missing value in strict mode", () => {
+			const problems = new ConfigProblems();
+			assert.strictEqual(
+				resolveValue({
+					...resolution,
+					collect: { missing: "missing", problems },
+					lookup: () => assert.fail("looked up"),
+					strict: true,
+				}),
+				"missing",
+			);
+			assert.deepStrictEqual(
+				problems.problems.map(p => p.path),
+				["test"],
+			);
+		});
+	});
+
+	describe("parseCidrBlocks", () => {
+		it("parses named and unnamed CIDR blocks", () => {
+			assert.deepStrictEqual(
+				parseCidrBlocks("office=198.51.100.0/24, 203.0.113.7/32,"),
+				[
+					{ cidrBlock: "198.51.100.0/24", displayName: "office" },
+					{ cidrBlock: "203.0.113.7/32" },
+				],
+			);
+		});
+
+		it("rejects invalid CIDR blocks", () => {
+			assert.throws(
+				() => parseCidrBlocks("198.51.100.0/24,vpn=203.0.113.7"),
+				(e: ConfigValidationError) =>
+					e.problems.length === 1 &&
+					e.problems[0].path ===
+						`${environmentVariables.authorizedNetworks}[1]`,
+			);
+		});
+	});
+
+	describe("mergeCidrBlocks", () => {
+		it("keeps the first entry of each CIDR block", () => {
+			assert.deepStrictEqual(
+				mergeCidrBlocks(
+					[
+						{ cidrBlock: "198.51.100.0/24", displayName: "office" },
+						{ cidrBlock: "192.0.2.0/24" },
+					],
+					[
+						{ cidrBlock: "203.0.113.7/32", displayName: "ci" },
+						{ cidrBlock: "198.51.100.0/24", displayName: "vpn" },
+					],
+				),
+				[
+					{ cidrBlock: "198.51.100.0/24", displayName: "office" },
+					{ cidrBlock: "192.0.2.0/24" },
+					{ cidrBlock: "203.0.113.7/32", displayName: "ci" },
+				],
+			);
+		});
+	});
+});
@@ -0,0 +1,932 @@
+/*
+ * Copyright © 2020 Atomist, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { deriveAddressPlan } from "../lib/cidr";
+import { StackConfig } from "../lib/config";
+import {
+	ConfigProblems,
+	configProblems,
+	ConfigValidationError,
+	validateConfig,
+} from "../lib/validate";
+import { manifestDirectory } from "./mocks";
+
+describe("validate", () => {
+	const valid: StackConfig = {
+		acme: { email: "certs@example.com" },
+		addons: { manifestDirectory },
+		billingAccount: true,
+		budgets: {},
+		dns: {},
+		dnsName: "k8s.example.com.",
+		egressLockdown: {},
+		env: "production",
+		firewall: [],
+		gke: {},
+		internalIngress: {},
+		kms: {},
+		kubeconfig: {},
+		monitoring: {},
+		nat: {},
+		network: {},
+		privateEndpoint: {},
+		projects: {},
+		purpose: "blog",
+		rbac: {},
+		region: "us-central1",
+		sharedVpc: {},
+		tenants: [],
+		workloadIdentities: [],
+	};
+	const paths = (c: Partial<StackConfig>): string[] =>
+		configProblems({ ...valid, ...c }).map(p => p.path);
+
+	it("accepts the default configuration", () => {
+		assert.deepStrictEqual(configProblems(valid), []);
+	});
+
+	it("requires a trailing dot on the DNS name", () => {
+		assert.deepStrictEqual(paths({ dnsName: "k8s.example.com" }), [
+			"dnsName",
+		]);
+	});
+
+	it("requires zones in the region", () => {
+		assert.deepStrictEqual(
+			paths({
+				gke: {
+					location: "us-east1-b",
+					zones: ["us-central1-a", "europe-west1-b"],
+				},
+			}),
+			["gke.location", "gke.zones[1]"],
+		);
+	});
+
+	it("rejects malformed master authorized networks", () => {
+		const problems = configProblems({
+			...valid,
+			gke: {
+				masterAuthorizedNetworkCidrBlocks: [
+					{ cidrBlock: "203.0.113.0/24" },
+					{ cidrBlock: "203.0.113.7" },
+					{ cidrBlock: "203.0.113.7/24" },
+				],
+			},
+		});
+		assert.deepStrictEqual(
+			problems.map(p => p.path),
+			[
+				"gke.masterAuthorizedNetworkCidrBlocks[1].cidrBlock",
+				"gke.masterAuthorizedNetworkCidrBlocks[2].cidrBlock",
+			],
+		);
+		assert(/did you mean 203\.0\.113\.0\/24/.test(problems[1].message));
+	});
+
+	it("checks node pool bounds and names", () => {
+		assert.deepStrictEqual(
+			paths({
+				gke: {
+					maxNodeCount: 3,
+					minNodeCount: 4,
+					nodePools: [
+						{ maxNodeCount: 2, minNodeCount: 5, name: "a" },
+						{ name: "a" },
+						{ diskType: "ssd", name: "Batch_Pool" },
+					],
+				},
+			}),
+			[
+				"gke.minNodeCount",
+				"gke.nodePools[0].minNodeCount",
+				"gke.nodePools[1].name",
+				"gke.nodePools[2].name",
+				"gke.nodePools[2].diskType",
+			],
+		);
+	});
+
+	it("checks node counts against the default bounds", () => {
+		assert.deepStrictEqual(paths({ gke: { minNodeCount: 5 } }), [
+			"gke.minNodeCount",
+		]);
+		assert.deepStrictEqual(paths({ gke: { maxNodeCount: 1 } }), []);
+		assert.deepStrictEqual(
+			paths({ gke: { maxNodeCount: 6, minNodeCount: 5 } }),
+			[],
+		);
+	});
+
+	it("checks workload identities", () => {
+		assert.deepStrictEqual(
+			paths({
+				workloadIdentities: [
+					{
+						namespace: "app",
+						project: "Not A Project",
+						roles: ["dns.admin"],
+						serviceAccount: "app",
+					},
+					{ namespace: "app", roles: [], serviceAccount: "app" },
+				],
+			}),
+			[
+				"workloadIdentities[0].project",
+				"workloadIdentities[0].roles[0]",
+				"workloadIdentities[1].serviceAccount",
+				"workloadIdentities[1].roles",
+			],
+		);
+	});
+
+	it("allows a service account name in several namespaces", () => {
+		assert.deepStrictEqual(
+			paths({
+				rbac: {
+					operators: { users: ["deployer@example.com"] },
+					securityGroup: "gke-security-groups@example.com",
+				},
+				tenants: [
+					{
+						group: "payments@example.com",
+						name: "payments",
+						workloadIdentity: {
+							roles: ["roles/cloudsql.client"],
+							serviceAccount: "app",
+						},
+					},
+				],
+				workloadIdentities: [
+					{
+						namespace: "orders",
+						roles: ["roles/pubsub.publisher"],
+						serviceAccount: "app",
+					},
+					{
+						namespace: "billing",
+						roles: ["roles/pubsub.publisher"],
+						serviceAccount: "app",
+					},
+				],
+			}),
+			[],
+		);
+	});
+
+	it("checks the DNS zones", () => {
+		assert.deepStrictEqual(
+			paths({
+				dns: {
+					existingZone: { name: "Example.com" },
+					parentZone: { name: "example-com" },
+					privateZone: { dnsName: "internal.example.com" },
+				},
+			}),
+			[
+				"dns.existingZone.name",
+				"dns.parentZone.project",
+				"dns.privateZone.dnsName",
+			],
+		);
+		assert.deepStrictEqual(
+			paths({
+				dns: {
+					existingZone: { name: "k8s-example-com" },
+					parentZone: { name: "example-com", project: "atm-dns" },
+					privateZone: { dnsName: "internal.example.com." },
+				},
+			}),
+			[],
+		);
+	});
+
+	it("checks workload identity bindings", () => {
+		assert.deepStrictEqual(
+			paths({
+				workloadIdentities: [
+					{
+						bindings: [
+							{ project: "dns", role: "roles/dns.reader" },
+							{
+								condition: {
+									expression:
+										"request.time < timestamp('2030-01-01T00:00:00Z')",
+									title: "Expires",
+								},
+								resource: { name: "backups", type: "bucket" },
+								role: "roles/storage.objectViewer",
+							},
+							{
+								condition: {
+									expression:
+										"request.time < timestamp('2031-01-01T00:00:00Z')",
+									title: "expires!",
+								},
+								resource: { name: "backups", type: "bucket" },
+								role: "roles/storage.objectViewer",
+							},
+						],
+						namespace: "app",
+						serviceAccount: "app",
+					},
+					{
+						bindings: [
+							{ project: "Nope", role: "dns.reader" },
+							{
+								condition: { title: "" } as any,
+								resource: { name: "key", type: "cryptoKey" },
+								role: "roles/cloudkms.cryptoKeyDecrypter",
+							},
+							{
+								resource: { name: "", type: "disk" as any },
+								role: "roles/compute.admin",
+							},
+							{ project: "Nope", role: "dns.reader" },
+						],
+						namespace: "other",
+						serviceAccount: "other",
+					},
+				],
+			}),
+			[
+				"workloadIdentities[0].bindings[2]",
+				"workloadIdentities[1].bindings[0].role",
+				"workloadIdentities[1].bindings[0].project",
+				"workloadIdentities[1].bindings[1].resource.name",
+				"workloadIdentities[1].bindings[1].condition.title",
+				"workloadIdentities[1].bindings[1].condition.expression",
+				"workloadIdentities[1].bindings[2].resource.type",
+				"workloadIdentities[1].bindings[2].resource.name",
+				"workloadIdentities[1].bindings[3].role",
+				"workloadIdentities[1].bindings[3].project",
+				"workloadIdentities[1].bindings[3]",
+			],
+		);
+	});
+
+	describe("address plan", () => {
+		it("derives the default ranges from 10.0.0.0/12", () => {
+			assert.deepStrictEqual(deriveAddressPlan("10.0.0.0/12"), {
+				masterIpv4CidrBlock: "10.0.32.0/28",
+				podsCidrBlock: "10.12.0.0/14",
+				servicesCidrBlock: "10.0.16.0/20",
+				subnetCidrBlock: "10.0.0.0/22",
+			});
+		});
+
+		it("accepts a base block", () => {
+			assert.deepStrictEqual(
+				paths({ network: { baseCidrBlock: "10.16.0.0/12" } }),
+				[],
+			);
+		});
+
+		it("detects overlapping ranges", () => {
+			assert.deepStrictEqual(
+				paths({
+					gke: {
+						masterAuthorizedNetworkCidrBlocks: [
+							{ cidrBlock: "10.0.0.0/16" },
+						],
+					},
+					network: { servicesCidrBlock: "10.12.0.0/20" },
+				}),
+				[
+					"network.servicesCidrBlock",
+					"gke.masterAuthorizedNetworkCidrBlocks[0].cidrBlock",
+				],
+			);
+		});
+
+		it("requires a /28 control plane range", () => {
+			assert.deepStrictEqual(
+				paths({ network: { masterIpv4CidrBlock: "172.16.0.0/27" } }),
+				["network.masterIpv4CidrBlock"],
+			);
+		});
+
+		it("requires enough pod addresses", () => {
+			assert.deepStrictEqual(
+				paths({
+					gke: { nodePools: [{ maxNodeCount: 200, name: "big" }] },
+					network: { podsCidrBlock: "10.12.0.0/16" },
+				}),
+				["network.podsCidrBlock"],
+			);
+		});
+	});
+
+	it("checks the Cloud NAT", () => {
+		assert.deepStrictEqual(
+			paths({
+				nat: {
+					addresses: -1,
+					logging: "SOME",
+					minPortsPerVm: 1,
+					timeouts: { tcpEstablished: 0, udp: 30 },
+				},
+			}),
+			[
+				"nat.addresses",
+				"nat.minPortsPerVm",
+				"nat.logging",
+				"nat.timeouts.tcpEstablished",
+			],
+		);
+		assert.deepStrictEqual(
+			paths({ nat: { addresses: 1, minPortsPerVm: 8192 } }),
+			["nat.addresses"],
+		);
+		assert.deepStrictEqual(
+			paths({
+				nat: {
+					addresses: 2,
+					logging: "ERRORS_ONLY",
+					minPortsPerVm: 8192,
+				},
+			}),
+			[],
+		);
+	});
+
+	describe("firewall", () => {
+		it("accepts ingress and egress rules", () => {
+			assert.deepStrictEqual(
+				paths({
+					egressLockdown: {
+						allowedCidrBlocks: [{ cidrBlock: "203.0.113.0/24" }],
+						enabled: true,
+					},
+					firewall: [
+						{
+							name: "master-to-webhook",
+							ports: ["9443", "10000-10100"],
+							sourceRanges: ["172.19.13.32/28"],
+						},
+						{
+							action: "deny",
+							destinationRanges: ["192.0.2.0/24"],
+							direction: "EGRESS",
+							name: "deny-example",
+							priority: 900,
+							protocols: ["all"],
+						},
+					],
+				}),
+				[],
+			);
+		});
+
+		it("reports problems with rules", () => {
+			assert.deepStrictEqual(
+				paths({
+					firewall: [
+						{
+							action: "reject",
+							destinationRanges: ["10.0.0.0/8"],
+							name: "Webhook",
+							ports: ["0", "9000-8000"],
+							protocols: ["tcp", "gre"],
+						},
+						{
+							direction: "EGRESS",
+							name: "egress-deny-all",
+							protocols: ["icmp"],
+							ports: ["443"],
+						},
+						{
+							name: "a",
+							sourceRanges: ["10.0.0.1/8"],
+							targetTags: ["Web"],
+						},
+						{
+							name: "a",
+							sourceRanges: ["10.0.0.0/8"],
+						},
+					],
+				}),
+				[
+					"firewall[0].name",
+					"firewall[0].action",
+					"firewall[0].protocols[1]",
+					"firewall[0].ports[0]",
+					"firewall[0].ports[1]",
+					"firewall[0].sourceRanges",
+					"firewall[0].destinationRanges",
+					"firewall[1].name",
+					"firewall[1].ports",
+					"firewall[1].destinationRanges",
+					"firewall[2].sourceRanges[0]",
+					"firewall[2].targetTags[0]",
+					"firewall[3].name",
+				],
+			);
+		});
+
+		it("detects conflicting priorities", () => {
+			assert.deepStrictEqual(
+				paths({
+					egressLockdown: { enabled: true },
+					firewall: [
+						{ name: "allow", sourceRanges: ["10.0.0.0/8"] },
+						{
+							action: "deny",
+							name: "deny",
+							sourceRanges: ["10.1.0.0/16"],
+						},
+						{
+							destinationRanges: ["0.0.0.0/0"],
+							direction: "EGRESS",
+							name: "late",
+							priority: 65535,
+						},
+					],
+				}),
+				[
+					"firewall[1].priority",
+					"firewall[2].priority",
+					"egressLockdown.allowedCidrBlocks",
+				],
+			);
+		});
+
+		it("requires allowed ACME egress during an egress lockdown", () => {
+			assert.deepStrictEqual(
+				paths({
+					acme: { email: "certs@example.com" },
+					egressLockdown: { enabled: true },
+				}),
+				["egressLockdown.allowedCidrBlocks"],
+			);
+			assert.deepStrictEqual(
+				paths({ acme: {}, egressLockdown: { enabled: true } }),
+				[],
+			);
+		});
+	});
+
+	it("checks the projects", () => {
+		assert.deepStrictEqual(
+			paths({
+				billingAccount: false,
+				projects: {
+					cluster: { projectId: "blog-cluster" },
+					dns: { existing: true, folderId: "folders/1" },
+					folderId: "1",
+					kms: { projectId: "blog-dns" },
+					orgId: "2",
+				},
+			}),
+			[
+				"projects.orgId",
+				"projects.cluster.projectId",
+				"projects.dns.folderId",
+				"projects.dns.existing",
+				"projects.kms.projectId",
+				"billingAccount",
+			],
+		);
+		assert.deepStrictEqual(
+			paths({
+				billingAccount: false,
+				budgets: { amounts: { cluster: 100 } },
+				projects: {
+					cluster: { existing: true },
+					dns: { existing: true, projectId: "shared-project" },
+					kms: { existing: true, projectId: "shared-project" },
+				},
+			}),
+			["billingAccount"],
+		);
+	});
+
+	it("checks the GKE addons and autoscaling", () => {
+		assert.deepStrictEqual(
+			paths({
+				gke: {
+					addons: { cloudRun: true },
+					autoscaling: {
+						profile: "FAST",
+						resourceLimits: [
+							{ maximum: 64, resourceType: "cpu" },
+							{ maximum: 0, resourceType: "gpu" },
+						],
+					},
+				},
+			}),
+			[
+				"gke.addons.cloudRun",
+				"gke.autoscaling.profile",
+				"gke.autoscaling.resourceLimits[1].resourceType",
+				"gke.autoscaling.resourceLimits[1].maximum",
+				"gke.autoscaling.resourceLimits",
+			],
+		);
+		assert.deepStrictEqual(
+			paths({
+				gke: {
+					autoscaling: {
+						autoProvisioning: true,
+						resourceLimits: [
+							{ maximum: 64, minimum: 128, resourceType: "cpu" },
+						],
+					},
+				},
+			}),
+			[
+				"gke.autoscaling.resourceLimits[0].minimum",
+				"gke.autoscaling.resourceLimits",
+			],
+		);
+		assert.deepStrictEqual(
+			paths({
+				gke: {
+					addons: { cloudRun: true, httpLoadBalancing: true },
+					autoscaling: {
+						autoProvisioning: true,
+						resourceLimits: [
+							{ maximum: 64, resourceType: "cpu" },
+							{ maximum: 256, resourceType: "memory" },
+							{ maximum: 2, resourceType: "nvidia-tesla-t4" },
+						],
+					},
+					verticalPodAutoscaling: true,
+				},
+			}),
+			[],
+		);
+	});
+
+	it("checks the private endpoint and its bastion", () => {
+		assert.deepStrictEqual(
+			paths({
+				kubeconfig: {
+					privateEndpoint: false,
+					proxyUrl: "localhost:1080",
+				},
+				privateEndpoint: { enabled: true, zone: "us-east1-b" },
+			}),
+			[
+				"kubeconfig.proxyUrl",
+				"privateEndpoint.group",
+				"privateEndpoint.zone",
+				"kubeconfig.privateEndpoint",
+			],
+		);
+		assert.deepStrictEqual(
+			paths({
+				kubeconfig: { proxyUrl: "socks5://localhost:1080" },
+				privateEndpoint: { enabled: true, group: "sre@example.com" },
+			}),
+			[],
+		);
+	});
+
+	it("checks the Shared VPC subnetwork", () => {
+		assert.deepStrictEqual(paths({ sharedVpc: { subnetwork: "gke" } }), [
+			"sharedVpc.subnetwork",
+		]);
+		assert.deepStrictEqual(
+			paths({
+				nat: { addresses: 1 },
+				network: { subnetCidrBlock: "10.0.0.0/22" },
+				sharedVpc: {
+					hostProject: "host",
+					podsRangeName: "Pods",
+					subnetwork: "gke",
+				},
+			}),
+			[
+				"sharedVpc.hostProject",
+				"sharedVpc.podsRangeName",
+				"sharedVpc.servicesRangeName",
+				"network.podsCidrBlock",
+				"network.servicesCidrBlock",
+				"nat",
+			],
+		);
+		assert.deepStrictEqual(
+			paths({
+				network: {
+					podsCidrBlock: "10.12.0.0/14",
+					servicesCidrBlock: "10.0.16.0/20",
+					subnetCidrBlock: "10.0.0.0/22",
+				},
+				sharedVpc: {
+					hostProject: "atm-host",
+					podsRangeName: "gke-pods",
+					servicesRangeName: "gke-services",
+					subnetwork: "gke",
+				},
+			}),
+			[],
+		);
+	});
+
+	it("checks the KMS keys", () => {
+		assert.deepStrictEqual(
+			paths({
+				kms: {
+					location: "US Central",
+					protectionLevel: "EXTERNAL",
+					rotationDays: 0,
+				},
+			}),
+			["kms.location", "kms.protectionLevel", "kms.rotationDays"],
+		);
+		assert.deepStrictEqual(
+			paths({
+				kms: {
+					location: "us",
+					protectionLevel: "HSM",
+					rotationDays: 30,
+				},
+			}),
+			[],
+		);
+	});
+
+	it("checks the internal ingress", () => {
+		assert.deepStrictEqual(
+			paths({
+				internalIngress: {
+					enabled: true,
+					ingressClass: "nginx",
+					sourceRanges: ["10.0.0.0/33"],
+				},
+			}),
+			[
+				"internalIngress.ingressClass",
+				"internalIngress.sourceRanges[0]",
+				"internalIngress.enabled",
+			],
+		);
+		assert.deepStrictEqual(
+			paths({
+				dns: { privateZone: { dnsName: "internal.k8s.example.com." } },
+				internalIngress: { enabled: true },
+			}),
+			[],
+		);
+	});
+
+	it("checks the ACME account of the cluster issuers", () => {
+		assert.deepStrictEqual(paths({ acme: {} }), []);
+		assert.deepStrictEqual(
+			paths({ acme: { http01IngressClass: "nginx" } }),
+			["acme.email"],
+		);
+		assert.deepStrictEqual(
+			paths({ acme: { email: "certs", http01IngressClass: "Nginx" } }),
+			["acme.email", "acme.http01IngressClass"],
+		);
+	});
+
+	describe("rbac", () => {
+		it("accepts role bindings", () => {
+			assert.deepStrictEqual(
+				paths({
+					rbac: {
+						bindings: [
+							{
+								groups: ["developers@example.com"],
+								name: "developers",
+								namespace: "dev",
+								role: "edit",
+							},
+							{
+								name: "viewers",
+								role: "view",
+								serviceAccounts: [
+									"ci@atm-test-cluster.iam.gserviceaccount.com",
+								],
+								users: ["jane@example.com"],
+							},
+						],
+						operators: { groups: ["ops@example.com"] },
+						securityGroup: "gke-security-groups@example.com",
+					},
+				}),
+				[],
+			);
+		});
+
+		it("reports problems with role bindings", () => {
+			assert.deepStrictEqual(
+				paths({
+					rbac: {
+						bindings: [
+							{
+								groups: ["developers@example.com"],
+								name: "Developers",
+								role: "edit",
+								roleKind: "Role",
+							},
+							{
+								name: "viewers",
+								role: "",
+								serviceAccounts: ["jane@example.com"],
+							},
+							{ name: "viewers", role: "view" },
+						],
+						operators: {},
+					},
+				}),
+				[
+					"rbac.operators",
+					"rbac.bindings[0].name",
+					"rbac.bindings[0].namespace",
+					"rbac.bindings[0].groups[0]",
+					"rbac.bindings[1].role",
+					"rbac.bindings[1].serviceAccounts[0]",
+					"rbac.bindings[2].name",
+					"rbac.bindings[2]",
+				],
+			);
+		});
+	});
+
+	it("requires positive budget amounts and thresholds", () => {
+		assert.deepStrictEqual(
+			paths({
+				budgets: {
+					amounts: { cluster: 0, dns: 10 },
+					currencyCode: "usd",
+					notificationChannels: ["123"],
+					thresholdPercents: [50, -1],
+				},
+			}),
+			[
+				"budgets.amounts.cluster",
+				"budgets.currencyCode",
+				"budgets.thresholdPercents[1]",
+				"budgets.notificationChannels[0]",
+			],
+		);
+	});
+
+	it("requires one target for each notification channel", () => {
+		assert.deepStrictEqual(
+			paths({
+				monitoring: {
+					certificateExpiryDays: 0,
+					certificateHosts: ["https://app.k8s.example.com/"],
+					notificationChannels: [
+						{ email: "oncall@example.com", name: "On call" },
+						{ name: "On call", webhookUrl: "http://example.com/" },
+						{ name: "Chat" },
+					],
+				},
+			}),
+			[
+				"monitoring.notificationChannels[1].name",
+				"monitoring.notificationChannels[1].webhookUrl",
+				"monitoring.notificationChannels[2]",
+				"monitoring.certificateExpiryDays",
+				"monitoring.certificateHosts[0]",
+			],
+		);
+	});
+
+	describe("tenants", () => {
+		it("reports problems with tenants", () => {
+			assert.deepStrictEqual(
+				paths({
+					tenants: [
+						{ group: "payments@example.com", name: "payments" },
+						{
+							group: "payments",
+							name: "payments",
+							workloadIdentity: {
+								roles: [],
+								serviceAccount: "backup",
+							},
+						},
+						{ group: "ops@example.com", name: "kube-system" },
+					],
+					workloadIdentities: [
+						{
+							namespace: "payments",
+							roles: ["roles/storage.objectAdmin"],
+							serviceAccount: "backup",
+						},
+					],
+				}),
+				[
+					"tenants[0].group",
+					"tenants[1].name",
+					"tenants[1].group",
+					"tenants[1].workloadIdentity.roles",
+					"tenants[1].workloadIdentity.serviceAccount",
+					"tenants[2].name",
+					"tenants[2].group",
+				],
+			);
+		});
+	});
+
+	describe("addons", () => {
+		it("accepts the default versions vendored in the k8s directory", () => {
+			assert.deepStrictEqual(paths({ addons: {} }), []);
+		});
+
+		it("requires vendored versions", () => {
+			const problems = configProblems({
+				...valid,
+				addons: { certManager: "v9.9.9", manifestDirectory },
+			});
+			assert.deepStrictEqual(
+				problems.map(p => p.path),
+				["addons.certManager"],
+			);
+			assert(
+				/npm run vendor -- cert-manager v9\.9\.9/.test(
+					problems[0].message,
+				),
+			);
+		});
+
+		it("rejects modified manifests", () => {
+			const directory = fs.mkdtempSync(
+				path.join(os.tmpdir(), "iac-gke-test-"),
+			);
+			try {
+				const versions = JSON.parse(
+					fs.readFileSync(
+						path.join(manifestDirectory, "addons.json"),
+						"utf8",
+					),
+				);
+				for (const addon of Object.keys(versions)) {
+					for (const v of Object.values<any>(
+						versions[addon].versions,
+					)) {
+						v.file = path.join(manifestDirectory, v.file);
+					}
+				}
+				versions["ingress-nginx"].versions[
+					"v0.34.1"
+				].sha256 = "0".repeat(64);
+				fs.writeFileSync(
+					path.join(directory, "addons.json"),
+					JSON.stringify(versions),
+				);
+				assert.deepStrictEqual(
+					paths({ addons: { manifestDirectory: directory } }),
+					["addons.ingressNginx"],
+				);
+			} finally {
+				fs.rmdirSync(directory, { recursive: true });
+			}
+		});
+	});
+
+	it("reports every problem in one error", () => {
+		assert.throws(
+			() =>
+				validateConfig({
+					...valid,
+					dnsName: "k8s.example.com",
+					gke: { channel: "FAST" },
+				}),
+			(e: ConfigValidationError) =>
+				e instanceof ConfigValidationError &&
+				e.problems.length === 2 &&
+				/dnsName: /.test(e.message) &&
+				/gke\.channel: /.test(e.message),
+		);
+	});
+
+	it("reports the problems resolving values with the others", () => {
+		const problems = new ConfigProblems();
+		problems.add("user", "required in strict mode");
+		assert.throws(
+			() =>
+				validateConfig(
+					{ ...valid, dnsName: "k8s.example.com" },
+					problems,
+				),
+			(e: ConfigValidationError) =>
+				e instanceof ConfigValidationError &&
+				e.problems.map(p => p.path).join() === "user,dnsName",
+		);
+	});
+});